@@ -0,0 +1,156 @@
+import * as path from "node:path";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import { buildAsyncApi, renderAsyncApiFiles } from "./asyncapi";
+import { resolveConfig } from "./config";
+import { extractServices, type ServiceManifest } from "./generator";
+
+describe("AsyncAPI document", () => {
+  let root: string;
+  let services: ServiceManifest[];
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/users/src/users.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { UsersController } from "./users.controller";
+        @Module({ controllers: [UsersController] })
+        export class UsersModule {}
+      `,
+      "apps/users/src/users.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { EventPattern, MessagePattern, Payload } from "@nestjs/microservices";
+        import { Observable } from "rxjs";
+        import { EmitsEvent } from "libs/proxies/src/client.service";
+
+        interface User {
+          id: number;
+          name: string;
+        }
+
+        @Controller()
+        @EmitsEvent<{ id: number }>("users.user-deleted")
+        export class UsersController {
+          @MessagePattern({ cmd: "get", service: "users" })
+          getUser(@Payload() id: number): Promise<User> {
+            return Promise.resolve({ id, name: "" });
+          }
+
+          @MessagePattern("users.list")
+          list$(): Observable<User> {
+            return new Observable();
+          }
+
+          @EventPattern("users.user-created")
+          onUserCreated(@Payload() user: User): void {}
+        }
+      `,
+      "libs/proxies/src/client.service.ts": `
+        export type Options = {};
+        export function EmitsEvent<_Payload = void>(_pattern: string): ClassDecorator & MethodDecorator {
+          return () => {};
+        }
+      `,
+    });
+    services = await extractServices(resolveConfig({ root }));
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  it("receives messages on the channel of their pattern and replies on a channel of their own", () => {
+    const document = buildAsyncApi(services, "workspace");
+
+    expect(document.channels["users.getUser"]).toEqual({
+      // Object patterns are addressed by their JSON with sorted keys
+      address: `{"cmd":"get","service":"users"}`,
+      messages: {
+        getUser: { $ref: "#/components/messages/users.getUser" },
+      },
+    });
+    expect(document.channels["users.getUserReply"].address).toBeNull();
+    expect(document.operations["users.getUser"]).toEqual({
+      action: "receive",
+      channel: { $ref: "#/channels/users.getUser" },
+      messages: [{ $ref: "#/channels/users.getUser/messages/getUser" }],
+      summary: "UsersController.getUser",
+      reply: {
+        channel: { $ref: "#/channels/users.getUserReply" },
+        messages: [
+          { $ref: "#/channels/users.getUserReply/messages/getUserReply" },
+        ],
+      },
+    });
+    // Characters other than letters, digits, "." and "-" are replaced in ids
+    expect(document.operations["users.list_"]).toMatchObject({
+      description: "Replies with a stream of values",
+      messages: [{ $ref: "#/channels/users.list_/messages/list$" }],
+    });
+  });
+
+  it("replies on the reply address of the pattern with kafka", async () => {
+    const kafkaServices = await extractServices(
+      resolveConfig({ root, transports: { users: "kafka" } })
+    );
+    const { channels } = buildAsyncApi(kafkaServices, "workspace");
+
+    expect(channels["users.list_Reply"].address).toBe("users.list.reply");
+  });
+
+  it("moves the named types of payloads and replies to the components", () => {
+    const { components } = buildAsyncApi(services, "workspace");
+
+    expect(components.messages["users.getUser"]).toEqual({
+      name: "getUser",
+      payload: { type: "number" },
+    });
+    expect(components.messages["users.getUserReply"].payload).toEqual({
+      $ref: "#/components/schemas/User",
+    });
+    expect(components.schemas.User).toEqual({
+      type: "object",
+      properties: { id: { type: "number" }, name: { type: "string" } },
+      required: ["id", "name"],
+    });
+  });
+
+  it("receives handled events and sends declared events on the channel of their pattern", () => {
+    const { channels, operations } = buildAsyncApi(services, "workspace");
+
+    expect(channels["users.userCreated"].address).toBe("users.user-created");
+    expect(operations["users.UsersController.onUserCreated"]).toEqual({
+      action: "receive",
+      channel: { $ref: "#/channels/users.userCreated" },
+      messages: [{ $ref: "#/channels/users.userCreated/messages/userCreated" }],
+    });
+    expect(channels["users.userDeleted"].address).toBe("users.user-deleted");
+    expect(operations["users.emitUserDeleted"]).toEqual({
+      action: "send",
+      channel: { $ref: "#/channels/users.userDeleted" },
+      messages: [{ $ref: "#/channels/users.userDeleted/messages/userDeleted" }],
+    });
+  });
+
+  it("writes one document per service without prefixes", () => {
+    const config = resolveConfig({
+      root,
+      asyncApiFile: "docs/{service}.asyncapi.json",
+    });
+    const files = renderAsyncApiFiles(config, services);
+    const document = JSON.parse(
+      files.get(path.join(root, "docs/users.asyncapi.json"))!
+    );
+
+    expect(document).toMatchObject({
+      asyncapi: "3.0.0",
+      info: { title: "Users", version: "1.0.0" },
+      defaultContentType: "application/json",
+    });
+    expect(Object.keys(document.channels)).toEqual([
+      "getUser",
+      "getUserReply",
+      "list_",
+      "list_Reply",
+      "userCreated",
+      "userDeleted",
+    ]);
+  });
+});
@@ -0,0 +1,289 @@
+import * as path from "node:path";
+import * as R from "remeda";
+import { GeneratorConfig } from "./config";
+import { EventDeclaration } from "./events";
+import {
+  MethodInfo,
+  ServiceManifest,
+  getContractVersions,
+  getVersionKey,
+  hasClientMethods,
+} from "./generator";
+import { JsonSchema } from "./json-schema";
+import {
+  getDeclaredPayloadSchema,
+  getPayloadSchema,
+  getReplyType,
+} from "./manifest";
+import { typeToSchema } from "./type-schema";
+
+export const ASYNCAPI_VERSION = "3.0.0";
+
+/** Placeholder of the service name in `asyncApiFile`, for one document per service */
+const SERVICE_PLACEHOLDER = "{service}";
+
+type Ref = { $ref: string };
+
+export interface AsyncApiChannel {
+  /** Pattern the handlers subscribe to. Null for reply channels the transport chooses at runtime */
+  address: string | null;
+  messages: Record<string, Ref>;
+}
+
+export interface AsyncApiOperation {
+  /** `receive` for handlers, `send` for events the service publishes */
+  action: "send" | "receive";
+  channel: Ref;
+  messages: Ref[];
+  summary?: string;
+  description?: string;
+  reply?: { channel: Ref; messages: Ref[] };
+}
+
+export interface AsyncApiMessage {
+  name: string;
+  payload?: JsonSchema;
+}
+
+export interface AsyncApiDocument {
+  asyncapi: typeof ASYNCAPI_VERSION;
+  info: { title: string; version: string };
+  defaultContentType: string;
+  channels: Record<string, AsyncApiChannel>;
+  operations: Record<string, AsyncApiOperation>;
+  components: {
+    messages: Record<string, AsyncApiMessage>;
+    schemas: Record<string, JsonSchema>;
+  };
+}
+
+const ref = (...keys: string[]): Ref => ({ $ref: `#/${keys.join("/")}` });
+
+/** Address of a pattern like Nest routes it: strings as they are, objects as JSON with sorted keys */
+function getAddress(pattern: unknown): string {
+  if (typeof pattern == "string" || typeof pattern == "number") {
+    return String(pattern);
+  }
+  const sortKeys = (value: unknown): unknown =>
+    Array.isArray(value)
+      ? value.map(sortKeys)
+      : R.isPlainObject(value)
+      ? R.pipe(
+          R.entries(value),
+          R.sortBy(([key]) => key),
+          R.map(([key, v]) => [key, sortKeys(v)] as const),
+          R.fromEntries()
+        )
+      : value;
+  return JSON.stringify(sortKeys(pattern));
+}
+
+/**
+ * Collects the schemas of a document in `components.schemas`.
+ * Moves the `$defs` of each schema there, renaming definitions whose name is taken by a different one, and turns `prefixItems` into the `items` array of JSON Schema draft 07, which AsyncAPI schemas are based on.
+ */
+function createSchemaCollector() {
+  const schemas: Record<string, JsonSchema> = {};
+  // Definitions before rewriting, to tell whether two of them are the same
+  const originals: Record<string, JsonSchema> = {};
+
+  const rewrite = (value: unknown, names: Record<string, string>): any => {
+    if (Array.isArray(value)) return value.map((v) => rewrite(v, names));
+    if (!R.isPlainObject(value)) return value;
+    return R.pipe(
+      R.entries(value),
+      R.map(([key, v]): [string, unknown] => {
+        if (key == "$ref" && typeof v == "string") {
+          const name = v.replace(/^#\/\$defs\//, "");
+          return [key, `#/components/schemas/${names[name] ?? name}`];
+        }
+        return [key == "prefixItems" ? "items" : key, rewrite(v, names)];
+      }),
+      R.fromEntries()
+    );
+  };
+
+  const collect = (schema: JsonSchema | null): JsonSchema | undefined => {
+    if (!schema) return;
+    const { $defs = {}, ...rest } = schema;
+    const names = R.mapValues($defs, (def, name) => {
+      let defName = name;
+      for (
+        let i = 2;
+        defName in originals && !R.isDeepEqual(originals[defName], def);
+        i++
+      ) {
+        defName = `${name}${i}`;
+      }
+      return defName;
+    });
+    for (const [name, def] of R.entries($defs)) {
+      originals[names[name]] = def;
+      schemas[names[name]] = rewrite(def, names);
+    }
+    return rewrite(rest, names);
+  };
+
+  return { schemas, collect };
+}
+
+/** Channels, operations and messages of a service, with ids prefixed by `prefix` */
+function describeService(
+  service: ServiceManifest,
+  prefix: string,
+  collect: (schema: JsonSchema | null) => JsonSchema | undefined
+) {
+  const channels: Record<string, AsyncApiChannel> = {};
+  const operations: Record<string, AsyncApiOperation> = {};
+  const messages: Record<string, AsyncApiMessage> = {};
+  // Keys of components may only contain letters, digits, ".", "_" and "-"
+  const id = (name: string) => `${prefix}${name}`.replace(/[^\w.-]/g, "_");
+
+  const addChannel = (
+    name: string,
+    address: string | null,
+    message: AsyncApiMessage
+  ) => {
+    channels[id(name)] = {
+      address,
+      messages: { [name]: ref("components", "messages", id(name)) },
+    };
+    messages[id(name)] = message;
+    return ref("channels", id(name));
+  };
+  const messageRef = (name: string) =>
+    ref("channels", id(name), "messages", name);
+
+  const [eventHandlers, messageHandlers] = R.partition(
+    service.methods,
+    (info) => info.isEventHandler
+  );
+
+  for (const info of messageHandlers) {
+    // Versions of a handler have their own channels, e.g. `getUser.v2`
+    const name = info.version
+      ? `${info.clientMethodName}.${getVersionKey(info.version)}`
+      : info.clientMethodName;
+    const address = getAddress(info.patternValue);
+    const returnType = getReplyType(info.method.getReturnType());
+    const replyAddress =
+      service.transport == "kafka" ? `${address}.reply` : null;
+    operations[id(name)] = {
+      action: "receive",
+      channel: addChannel(name, address, {
+        name,
+        payload: collect(getPayloadSchema(info)),
+      }),
+      messages: [messageRef(name)],
+      summary: `${info.className}.${info.methodName}`,
+      ...(info.isStreaming && {
+        description: "Replies with a stream of values",
+      }),
+      reply: {
+        channel: addChannel(`${name}Reply`, replyAddress, {
+          name: `${name}Reply`,
+          payload: collect(typeToSchema(returnType, info.method)),
+        }),
+        messages: [messageRef(`${name}Reply`)],
+      },
+    };
+  }
+
+  // Handlers and declarations of the same event share a channel and a message with all of their payloads
+  const events = R.groupBy(
+    [...eventHandlers, ...service.events] as (MethodInfo | EventDeclaration)[],
+    R.prop("clientMethodName")
+  );
+  for (const group of R.values(events)) {
+    const name = group[0].eventName!;
+    const schemas = group
+      .map((source) =>
+        "method" in source
+          ? getPayloadSchema(source)
+          : getDeclaredPayloadSchema(source)
+      )
+      .map(collect)
+      .filter(R.isDefined);
+    const channel = addChannel(name, group[0].patternValue as string, {
+      name,
+      payload: schemas.length > 1 ? { allOf: schemas } : schemas[0],
+    });
+
+    for (const source of group) {
+      const isHandler = "method" in source;
+      const operationId = isHandler
+        ? `${source.className}.${source.methodName}`
+        : source.clientMethodName;
+      operations[id(operationId)] = {
+        action: isHandler ? "receive" : "send",
+        channel,
+        messages: [messageRef(name)],
+      };
+    }
+  }
+
+  return { channels, operations, messages };
+}
+
+/** AsyncAPI document of the services: handlers receive on the channel of their pattern, message handlers reply on a channel of their own */
+export function buildAsyncApi(
+  services: ServiceManifest[],
+  title: string,
+  /** Prefixes ids with the service key, e.g. `users.getUser`, so that those of several services don't clash */
+  prefixIds = true
+): AsyncApiDocument {
+  const { schemas, collect } = createSchemaCollector();
+  const latestVersion = Math.max(
+    1,
+    ...services.flatMap((service) => getContractVersions(service.methods))
+  );
+  const described = services
+    .filter(hasClientMethods)
+    .map((service) =>
+      describeService(
+        service,
+        prefixIds ? `${R.uncapitalize(service.serviceName)}.` : "",
+        collect
+      )
+    );
+
+  return {
+    asyncapi: ASYNCAPI_VERSION,
+    info: { title, version: `${latestVersion}.0.0` },
+    defaultContentType: "application/json",
+    channels: R.mergeAll(described.map(R.prop("channels"))),
+    operations: R.mergeAll(described.map(R.prop("operations"))),
+    components: {
+      messages: R.mergeAll(described.map(R.prop("messages"))),
+      schemas,
+    },
+  };
+}
+
+/** AsyncAPI documents by output path: one for the workspace, or one per service if `asyncApiFile` contains `{service}` */
+export function renderAsyncApiFiles(
+  config: GeneratorConfig,
+  services: ServiceManifest[]
+) {
+  const { asyncApiFile } = config;
+  if (!asyncApiFile) return new Map<string, string>();
+
+  const render = (document: AsyncApiDocument) =>
+    JSON.stringify(document, null, 2);
+  if (!asyncApiFile.includes(SERVICE_PLACEHOLDER)) {
+    const title = path.basename(config.root);
+    return new Map([[asyncApiFile, render(buildAsyncApi(services, title))]]);
+  }
+
+  return new Map(
+    services
+      .filter(hasClientMethods)
+      .map((service) => [
+        asyncApiFile.replace(
+          SERVICE_PLACEHOLDER,
+          R.toKebabCase(service.serviceName)
+        ),
+        render(buildAsyncApi([service], service.serviceName, false)),
+      ])
+  );
+}
@@ -0,0 +1,229 @@
+import * as path from "node:path";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import { extractCallGraph, renderCallGraph } from "./call-graph";
+import { resolveConfig } from "./config";
+import { extractServices, generateClients, writeIfChanged } from "./generator";
+
+describe("call graph", () => {
+  let root: string;
+  let result: Awaited<ReturnType<typeof extractCallGraph>>;
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/users/src/users.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { UsersController } from "./users.controller";
+        @Module({ controllers: [UsersController] })
+        export class UsersModule {}
+      `,
+      "apps/users/src/users.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { MessagePattern, Payload } from "@nestjs/microservices";
+
+        @Controller()
+        export class UsersController {
+          @MessagePattern("users.get")
+          getUser(@Payload() id: number): string {
+            return "";
+          }
+
+          @MessagePattern("users.delete")
+          deleteUser(@Payload() id: number): void {}
+        }
+      `,
+      "apps/orders/src/orders.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { OrdersController } from "./orders.controller";
+        @Module({ controllers: [OrdersController] })
+        export class OrdersModule {}
+      `,
+      "apps/orders/src/orders.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { EventPattern, MessagePattern, Payload } from "@nestjs/microservices";
+
+        @Controller()
+        export class OrdersController {
+          @MessagePattern("orders.get")
+          getOrder(@Payload() id: number): number {
+            return id;
+          }
+
+          @EventPattern("orders.order-shipped")
+          onOrderShipped(@Payload() id: number): void {}
+        }
+      `,
+    });
+    const config = resolveConfig({ root });
+    const files = await generateClients(await extractServices(config), config);
+    for (const [file, content] of files) {
+      await writeIfChanged(file, content);
+    }
+    const callers = {
+      "apps/orders/src/orders.service.ts": `
+        import type { UsersProxy } from "../../users/src/users.proxy.generated";
+
+        export class OrdersService {
+          constructor(private readonly users: UsersProxy) {}
+
+          async getBuyer() {
+            await this.users.getUser(1);
+            await this.users["removeUser"](1);
+          }
+        }
+      `,
+      "apps/users/src/users.service.ts": `
+        import type { OrdersProxy } from "../../orders/src/orders.proxy.generated";
+
+        export class UsersService {
+          constructor(private readonly orders?: OrdersProxy) {}
+
+          getLastOrder() {
+            return this.orders?.getOrder(1);
+          }
+        }
+      `,
+      "scripts/ship.ts": `
+        import type { OrdersProxy } from "../apps/orders/src/orders.proxy.generated";
+
+        export function ship(orders: OrdersProxy) {
+          orders.emitOrderShipped(1);
+        }
+      `,
+    };
+    for (const [file, content] of Object.entries(callers)) {
+      await writeIfChanged(path.join(root, file), content);
+    }
+    result = await extractCallGraph(config);
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  it("lists the calls between services with their sites", () => {
+    expect(result.graph.services).toEqual(["orders", "users"]);
+    // Callers are listed in the order their files are found
+    expect(result.graph.calls).toHaveLength(3);
+    expect(result.graph.calls).toEqual(
+      expect.arrayContaining([
+        {
+          from: "orders",
+          to: "users",
+          method: "getUser",
+          kind: "message",
+          sites: [
+            { file: "apps/orders/src/orders.service.ts", line: 8, column: 19 },
+          ],
+        },
+        {
+          from: "users",
+          to: "orders",
+          method: "getOrder",
+          kind: "message",
+          sites: [
+            { file: "apps/users/src/users.service.ts", line: 8, column: 20 },
+          ],
+        },
+        {
+          from: null,
+          to: "orders",
+          method: "emitOrderShipped",
+          kind: "event",
+          sites: [{ file: "scripts/ship.ts", line: 5, column: 11 }],
+        },
+      ])
+    );
+  });
+
+  it("reports handlers that are never called", () => {
+    expect(result.graph.unusedHandlers).toEqual([
+      {
+        service: "users",
+        method: "deleteUser",
+        handler: "UsersController.deleteUser",
+      },
+    ]);
+    expect(result.diagnostics).toContainEqual(
+      expect.objectContaining({
+        code: "CG201",
+        message: `Handler "UsersController.deleteUser" of service "Users" is never called through the "deleteUser" method of its proxy`,
+      })
+    );
+  });
+
+  it("reports calls of methods the service has no handler for", () => {
+    expect(result.graph.missingMethods).toEqual([
+      expect.objectContaining({
+        from: "orders",
+        to: "users",
+        method: "removeUser",
+        kind: undefined,
+      }),
+    ]);
+    expect(result.diagnostics).toContainEqual(
+      expect.objectContaining({
+        code: "CG202",
+        message: `Service "Users" has no handler for method "removeUser" of its proxy`,
+      })
+    );
+  });
+
+  it("reports services calling each other in a cycle", () => {
+    expect(result.graph.cycles).toEqual([
+      { services: ["orders", "users"], path: ["orders", "users", "orders"] },
+    ]);
+    expect(result.diagnostics).toContainEqual(
+      expect.objectContaining({
+        code: "CG203",
+        message:
+          "Services call each other in a cycle: orders -> users -> orders",
+        location: expect.objectContaining({
+          file: path.join(root, "apps/orders/src/orders.service.ts"),
+        }),
+        related: [
+          expect.objectContaining({
+            file: path.join(root, "apps/users/src/users.service.ts"),
+          }),
+        ],
+      })
+    );
+  });
+
+  it("renders the graph as a Graphviz digraph", () => {
+    const lines = renderCallGraph(result.graph, "dot").split("\n");
+
+    expect(lines.slice(0, 5)).toEqual([
+      "digraph services {",
+      "  rankdir=LR;",
+      `  "orders";`,
+      `  "users";`,
+      `  "(external)" [shape=box, style=dashed];`,
+    ]);
+    expect(lines.slice(5, -1).sort()).toEqual([
+      `  "(external)" -> "orders" [label="emitOrderShipped", style=dashed];`,
+      `  "orders" -> "users" [label="getUser"];`,
+      `  "users" -> "orders" [label="getOrder"];`,
+    ]);
+    expect(lines.at(-1)).toBe("}");
+  });
+
+  it("renders the graph as a Mermaid flowchart", () => {
+    const lines = renderCallGraph(result.graph, "mermaid").split("\n");
+
+    expect(lines.slice(0, 4)).toEqual([
+      "flowchart LR",
+      "  orders",
+      "  users",
+      `  external["(external)"]`,
+    ]);
+    expect(lines.slice(4).sort()).toEqual([
+      `  external -.->|"emitOrderShipped"| orders`,
+      `  orders -->|"getUser"| users`,
+      `  users -->|"getOrder"| orders`,
+    ]);
+  });
+
+  it("renders the graph as JSON", () => {
+    expect(JSON.parse(renderCallGraph(result.graph, "json"))).toEqual(
+      JSON.parse(JSON.stringify(result.graph))
+    );
+  });
+});
@@ -0,0 +1,444 @@
+import * as fg from "fast-glob";
+import * as path from "node:path";
+import * as R from "remeda";
+import { InterfaceDeclaration, Node, Project, SyntaxKind } from "ts-morph";
+import { GeneratorConfig, GraphFormat } from "./config";
+import {
+  Diagnostic,
+  createDiagnostic,
+  getLocation,
+  rules,
+} from "./diagnostics";
+import {
+  MethodKind,
+  ServiceManifest,
+  createProject,
+  extractServices,
+  findMainModules,
+  getContractVersions,
+  getMethodKind,
+  getProxyFilePath,
+  getVersionKey,
+  getVersionMethods,
+  hasClientMethods,
+} from "./generator";
+
+export interface CallSite {
+  /** Relative to the workspace root */
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface ServiceCall {
+  /** Key of the calling service, null for files outside of every service, e.g. shared libraries or scripts */
+  from: string | null;
+  /** Key of the called service */
+  to: string;
+  /** Method of the proxy */
+  method: string;
+  /** Contract version of the proxy, omitted for the proxy of the latest version */
+  version?: number;
+  /** Undefined for methods the proxy doesn't have */
+  kind?: MethodKind;
+  sites: CallSite[];
+}
+
+export interface UnusedHandler {
+  service: string;
+  method: string;
+  /** Contract version of the handler, omitted for unversioned handlers */
+  version?: number;
+  /** Handler of the method, e.g. `UsersController.getUser` */
+  handler: string;
+}
+
+export interface ServiceCycle {
+  /** Services that call each other, directly or through the others */
+  services: string[];
+  /** Shortest cycle of calls through the first service, e.g. `["orders", "users", "orders"]` */
+  path: string[];
+}
+
+export interface CallGraph {
+  /** Keys of the services */
+  services: string[];
+  calls: ServiceCall[];
+  /** Calls of methods the services no longer have, e.g. of removed handlers */
+  missingMethods: ServiceCall[];
+  /** Handlers no proxy method is called for */
+  unusedHandlers: UnusedHandler[];
+  cycles: ServiceCycle[];
+}
+
+/** Use of a method of a proxy, e.g. `this.users.getUser` */
+export type ProxyUse = {
+  from: string | null;
+  service: ServiceManifest;
+  /** Contract version of the proxy, undefined for the proxy of the latest version */
+  version?: number;
+  method: string;
+  node: Node;
+};
+
+type ProxyInterface = Pick<ProxyUse, "service" | "version">;
+
+/** Key of the service whose directory contains the file, null if none does */
+function getCallerService(services: ServiceManifest[], file: string) {
+  const service = R.firstBy(
+    services.filter((s) =>
+      file.startsWith(path.dirname(s.modulePath) + path.sep)
+    ),
+    [(s) => path.dirname(s.modulePath).length, "desc"]
+  );
+  return service ? R.uncapitalize(service.serviceName) : null;
+}
+
+/** Name of the property accessed on the receiver, undefined for computed names */
+function getAccessedName(node: Node) {
+  if (Node.isPropertyAccessExpression(node)) return node.getName();
+  if (Node.isElementAccessExpression(node)) {
+    const argument = node.getArgumentExpression();
+    if (Node.isStringLiteral(argument)) return argument.getLiteralValue();
+  }
+}
+
+/**
+ * Accesses of the methods of generated proxy interfaces in the files, e.g. `this.users.getUser(1)` or `users["emitUserCreated"]`.
+ * Proxies are recognized by the type of the receiver, so that uses of methods the interface doesn't have are found too.
+ */
+export function findProxyUses(
+  project: Project,
+  config: GeneratorConfig,
+  services: ServiceManifest[],
+  files: string[]
+): ProxyUse[] {
+  // Proxies of the latest version of each service, and of each contract version, e.g. `UsersV1Proxy`
+  const proxies = new Map<InterfaceDeclaration, ProxyInterface>();
+  for (const service of services.filter(hasClientMethods)) {
+    const { serviceName } = service;
+    const proxyFile = project.getSourceFile(
+      getProxyFilePath(config, service.modulePath, serviceName)
+    );
+    for (const version of [
+      undefined,
+      ...getContractVersions(service.methods),
+    ]) {
+      const declaration = proxyFile?.getInterface(
+        version ? `${serviceName}V${version}Proxy` : `${serviceName}Proxy`
+      );
+      if (declaration) proxies.set(declaration, { service, version });
+    }
+  }
+  const proxyNames = new Set([...proxies.keys()].map((d) => d.getName()));
+
+  return files.flatMap((file) => {
+    const sourceFile = project.getSourceFile(file);
+    if (!sourceFile || sourceFile.isDeclarationFile()) return [];
+    const from = getCallerService(services, file);
+
+    return [
+      ...sourceFile.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression),
+      ...sourceFile.getDescendantsOfKind(SyntaxKind.ElementAccessExpression),
+    ].flatMap((node) => {
+      const method = getAccessedName(node);
+      if (!method) return [];
+      // Optional proxies, e.g. `this.users?.getUser`, and proxies with a token, e.g. `UsersProxy & { token: typeof USERS }`, are proxies too
+      const type = node.getExpression().getType().getNonNullableType();
+      const proxy = (
+        type.isIntersection() ? type.getIntersectionTypes() : [type]
+      )
+        .map((t) => t.getSymbol())
+        .filter((symbol) => symbol && proxyNames.has(symbol.getName()))
+        .flatMap((symbol) => symbol!.getDeclarations())
+        .map((d) => Node.isInterfaceDeclaration(d) && proxies.get(d))
+        .find(R.isTruthy);
+      // Proxies of contract versions, e.g. `users.v1`, aren't methods
+      const isVersion =
+        proxy &&
+        !proxy.version &&
+        getContractVersions(proxy.service.methods)
+          .map(getVersionKey)
+          .includes(method);
+      return proxy && !isVersion ? [{ from, ...proxy, method, node }] : [];
+    });
+  });
+}
+
+/** Kinds of the client methods of a version of a service by name */
+function getClientMethodKinds(service: ServiceManifest, version?: number) {
+  return new Map<string, MethodKind>([
+    ...service.events.map(
+      (event) => [event.clientMethodName, "event"] as const
+    ),
+    ...getVersionMethods(service.methods, version).map(
+      (info) => [info.clientMethodName, getMethodKind(info)] as const
+    ),
+  ]);
+}
+
+/** Shortest path of calls from a service back to itself, undefined if there is none */
+function findCycle(start: string, successors: Map<string, Set<string>>) {
+  const parents = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of successors.get(current) ?? []) {
+      if (next == start) {
+        const cycle = [current];
+        while (cycle[0] != start) cycle.unshift(parents.get(cycle[0])!);
+        return [...cycle, start];
+      }
+      if (!parents.has(next)) {
+        parents.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+}
+
+/** Services reached from a service through calls */
+function getReachable(start: string, successors: Map<string, Set<string>>) {
+  const reached = new Set<string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    for (const next of successors.get(queue.shift()!) ?? []) {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return reached;
+}
+
+/** Groups of services that call each other. Calls of a service to itself, e.g. emitting its own events, aren't cycles */
+function findCycles(services: string[], calls: ServiceCall[]) {
+  const successors = new Map<string, Set<string>>();
+  for (const { from, to } of calls) {
+    if (from === null || from == to) continue;
+    successors.set(from, (successors.get(from) ?? new Set()).add(to));
+  }
+  const reachable = new Map(
+    services.map((service) => [service, getReachable(service, successors)])
+  );
+
+  const cycles: ServiceCycle[] = [];
+  const inCycle = new Set<string>();
+  for (const service of services) {
+    const cycle = findCycle(service, successors);
+    if (inCycle.has(service) || !cycle) continue;
+    const members = services.filter(
+      (other) =>
+        reachable.get(service)?.has(other) && reachable.get(other)?.has(service)
+    );
+    members.forEach((member) => inCycle.add(member));
+    cycles.push({ services: members, path: cycle });
+  }
+  return cycles;
+}
+
+/**
+ * Call graph of the services from the uses of their proxies.
+ * Reports handlers nothing calls through a proxy, uses of methods the proxies no longer have and services calling each other in a cycle.
+ */
+export function buildCallGraph(
+  services: ServiceManifest[],
+  uses: ProxyUse[],
+  root: string
+) {
+  const toSite = (node: Node): CallSite => {
+    const { file, start } = getLocation(node);
+    return { file: path.relative(root, file), ...start };
+  };
+  const getKind = (use: ProxyUse) =>
+    getClientMethodKinds(use.service, use.version).get(use.method);
+  const keys = services
+    .filter(hasClientMethods)
+    .map((s) => R.uncapitalize(s.serviceName));
+
+  // One call per caller and method, with every place it is used
+  const groups = R.pipe(
+    uses,
+    R.groupBy(
+      (use) =>
+        `${use.from}|${use.service.serviceName}|${use.version}|${use.method}`
+    ),
+    R.values()
+  );
+  const toCall = (group: ProxyUse[]): ServiceCall => {
+    const { from, service, version, method } = group[0];
+    return {
+      from,
+      to: R.uncapitalize(service.serviceName),
+      method,
+      version,
+      kind: getKind(group[0]),
+      sites: group.map((use) => toSite(use.node)),
+    };
+  };
+  const [existing, missing] = R.partition(groups, (group) =>
+    R.isDefined(getKind(group[0]))
+  );
+  const calls = existing.map(toCall);
+
+  // Handlers called through the proxy of their version, or of a later version they are the latest of
+  const used = new Set(
+    uses.flatMap((use) =>
+      getVersionMethods(use.service.methods, use.version).filter(
+        (info) => info.clientMethodName == use.method
+      )
+    )
+  );
+  const unused = services.flatMap((service) =>
+    service.methods.filter((info) => !used.has(info))
+  );
+
+  const cycles = findCycles(keys, calls);
+
+  const diagnostics: Diagnostic[] = [
+    ...unused.map((info) =>
+      createDiagnostic(
+        rules.unusedHandler,
+        `Handler "${info.className}.${info.methodName}" of service "${
+          info.serviceName
+        }" is never called through the "${info.clientMethodName}" method of ${
+          info.version ? `its version ${info.version} proxy` : "its proxy"
+        }`,
+        info.method.getNameNode()
+      )
+    ),
+    ...missing.flatMap((group) =>
+      group.map((use) =>
+        createDiagnostic(
+          rules.missingProxyMethod,
+          `Service "${use.service.serviceName}" has no handler for method "${
+            use.method
+          }" of ${
+            use.version ? `its version ${use.version} proxy` : "its proxy"
+          }`,
+          use.node
+        )
+      )
+    ),
+    ...cycles.map((cycle) => {
+      // First use of each call along the cycle
+      const [first, ...others] = R.zip(cycle.path, cycle.path.slice(1)).map(
+        ([from, to]) =>
+          uses.find(
+            (use) =>
+              use.from == from && R.uncapitalize(use.service.serviceName) == to
+          )!.node
+      );
+      return createDiagnostic(
+        rules.serviceCycle,
+        `Services call each other in a cycle: ${cycle.path.join(" -> ")}`,
+        first,
+        others
+      );
+    }),
+  ];
+
+  const graph: CallGraph = {
+    services: keys,
+    calls,
+    missingMethods: missing.map(toCall),
+    unusedHandlers: unused.map((info) => ({
+      service: R.uncapitalize(info.serviceName),
+      method: info.clientMethodName,
+      version: info.version,
+      handler: `${info.className}.${info.methodName}`,
+    })),
+    cycles,
+  };
+  return { graph, diagnostics };
+}
+
+/** Node of callers outside of every service */
+const EXTERNAL = "(external)";
+
+/** Calls between two services, split into messages and events */
+function getEdges(graph: CallGraph) {
+  return R.pipe(
+    graph.calls,
+    R.groupBy(
+      (call) => `${call.from}|${call.to}|${call.kind == "event" ? "event" : ""}`
+    ),
+    R.values(),
+    R.map((group) => ({
+      from: group[0].from ?? EXTERNAL,
+      to: group[0].to,
+      isEvent: group[0].kind == "event",
+      methods: group.map((call) =>
+        call.version
+          ? `${getVersionKey(call.version)}.${call.method}`
+          : call.method
+      ),
+    }))
+  );
+}
+
+function renderDot(graph: CallGraph) {
+  const hasExternal = graph.calls.some((call) => call.from === null);
+  const nodes = [
+    ...graph.services.map((key) => `  "${key}";`),
+    ...(hasExternal ? [`  "${EXTERNAL}" [shape=box, style=dashed];`] : []),
+  ];
+  const edges = getEdges(graph).map(
+    ({ from, to, isEvent, methods }) =>
+      `  "${from}" -> "${to}" [label="${methods.join("\\n")}"${
+        isEvent ? ", style=dashed" : ""
+      }];`
+  );
+  return ["digraph services {", "  rankdir=LR;", ...nodes, ...edges, "}"].join(
+    "\n"
+  );
+}
+
+function renderMermaid(graph: CallGraph) {
+  // Mermaid ids can't contain parentheses
+  const id = (node: string) => (node == EXTERNAL ? "external" : node);
+  const hasExternal = graph.calls.some((call) => call.from === null);
+  const nodes = [
+    ...graph.services.map((key) => `  ${key}`),
+    ...(hasExternal ? [`  external["${EXTERNAL}"]`] : []),
+  ];
+  const edges = getEdges(graph).map(
+    ({ from, to, isEvent, methods }) =>
+      `  ${id(from)} ${isEvent ? "-.->" : "-->"}|"${methods.join(
+        "<br>"
+      )}"| ${id(to)}`
+  );
+  return ["flowchart LR", ...nodes, ...edges].join("\n");
+}
+
+/** Renders the call graph as JSON, a Graphviz digraph or a Mermaid flowchart. Events are dashed edges */
+export function renderCallGraph(graph: CallGraph, format: GraphFormat) {
+  switch (format) {
+    case "dot":
+      return renderDot(graph);
+    case "mermaid":
+      return renderMermaid(graph);
+    default:
+      return JSON.stringify(graph, null, 2);
+  }
+}
+
+/** Extracts the services and scans the files matching `callers` for uses of their proxies */
+export async function extractCallGraph(config: GeneratorConfig) {
+  const mainModulePaths = await findMainModules(config);
+  const project = await createProject(config, mainModulePaths);
+  const callerFiles = await fg.async(config.callers, {
+    cwd: config.root,
+    absolute: true,
+    ignore: ["**/node_modules/**"],
+  });
+  project.addSourceFilesAtPaths(callerFiles);
+
+  const services = await extractServices({ ...config, project });
+  const uses = findProxyUses(project, config, services, callerFiles);
+  return {
+    services,
+    ...buildCallGraph(services, uses, config.root),
+  };
+}
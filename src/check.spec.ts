@@ -0,0 +1,69 @@
+import * as path from "node:path";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import { findOrphanedFiles, findStaleFiles } from "./check";
+
+describe("findStaleFiles", () => {
+  let root: string;
+  const file = (name: string) => path.join(root, name);
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/users/src/users.proxy.generated.ts":
+        "export interface UsersProxy {}\n",
+      "apps/orders/src/orders.proxy.generated.ts":
+        "export interface OrdersProxy {}\n",
+      // Left over from a deleted service
+      "apps/billing/src/billing.proxy.generated.ts":
+        "export interface BillingProxy {}\n",
+      "apps/billing/src/billing.proxy.mock.generated.ts": "export {};\n",
+    });
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  const generated = () =>
+    new Map([
+      [
+        file("apps/users/src/users.proxy.generated.ts"),
+        "export interface UsersProxy {}\n",
+      ],
+      [
+        file("apps/orders/src/orders.proxy.generated.ts"),
+        "export interface OrdersProxy { getOrder(): void }\n",
+      ],
+      [
+        file("libs/proxies/src/generated/patterns.ts"),
+        "export const patternMap = {};\n",
+      ],
+    ]);
+
+  it("reports changed, missing and orphaned files with a diff", async () => {
+    const staleFiles = await findStaleFiles(root, generated());
+
+    expect(
+      staleFiles.map(({ filePath }) => path.relative(root, filePath))
+    ).toEqual([
+      "apps/orders/src/orders.proxy.generated.ts",
+      "libs/proxies/src/generated/patterns.ts",
+      "apps/billing/src/billing.proxy.generated.ts",
+      "apps/billing/src/billing.proxy.mock.generated.ts",
+    ]);
+    const [changed, missing, orphaned] = staleFiles.map(({ diff }) => diff);
+    expect(changed).toContain(
+      "+export interface OrdersProxy { getOrder(): void }"
+    );
+    expect(missing).toContain("--- /dev/null");
+    expect(orphaned).toContain("+++ /dev/null");
+    expect(orphaned).toContain("-export interface BillingProxy {}");
+  });
+
+  it("finds the orphaned proxies and mocks outside of node_modules", async () => {
+    // The workspace links the node_modules of this repository, which are skipped
+    const orphaned = await findOrphanedFiles(root, generated());
+
+    expect(orphaned).toEqual([
+      file("apps/billing/src/billing.proxy.generated.ts"),
+      file("apps/billing/src/billing.proxy.mock.generated.ts"),
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { createTwoFilesPatch } from "diff";
+import * as fg from "fast-glob";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+/** Proxies and mocks written by the generator, which it owns wherever they are */
+const GENERATED_PATTERNS = [
+  "**/*.proxy.generated.ts",
+  "**/*.proxy.mock.generated.ts",
+];
+
+/** Generated proxies and mocks on disk that the generator no longer writes, e.g. those of a deleted service */
+export async function findOrphanedFiles(
+  root: string,
+  files: Map<string, string>
+) {
+  const existing = await fg.async(GENERATED_PATTERNS, {
+    cwd: root,
+    absolute: true,
+    ignore: ["**/node_modules/**"],
+  });
+  return existing
+    .map(path.normalize)
+    .filter((file) => !files.has(file))
+    .sort();
+}
+
+/** Compares generated content with the files on disk. Returns the stale files with a unified diff of each, orphaned files included */
+export async function findStaleFiles(root: string, files: Map<string, string>) {
+  const staleFiles: { filePath: string; diff: string }[] = [];
+
+  for (const [filePath, expected] of files) {
+    const current = await fs.readFile(filePath, "utf8").catch(() => undefined);
+    if (current === expected) continue;
+
+    const name = path.relative(root, filePath);
+    const diff = createTwoFilesPatch(
+      current === undefined ? "/dev/null" : `a/${name}`,
+      `b/${name}`,
+      current ?? "",
+      expected
+    );
+    staleFiles.push({ filePath, diff });
+  }
+
+  for (const filePath of await findOrphanedFiles(root, files)) {
+    const current = await fs.readFile(filePath, "utf8");
+    const name = path.relative(root, filePath);
+    const diff = createTwoFilesPatch(`a/${name}`, "/dev/null", current, "");
+    staleFiles.push({ filePath, diff });
+  }
+
+  return staleFiles;
+}
@@ -1,24 +1,75 @@
+import { Observable, ObservedValueOf, timeout, defer, tap } from "rxjs";
 import {
-  Observable,
-  ObservedValueOf,
-  lastValueFrom,
-  switchMap,
-  timeout,
-  defer,
-  tap,
-  retry,
-  first,
-} from "rxjs";
-import { patternMap } from "./generated/patterns";
-import { ClientProxyFactory, type ClientOptions } from "@nestjs/microservices";
+  runInterceptors,
+  type ClientCallContext,
+  type ClientInterceptor,
+} from "./interceptors";
+import { DEFAULT_POLICY, retryWithBackoff, type CallPolicy } from "./policy";
+import {
+  createServiceProxy,
+  getServicePatterns,
+  type ServiceName,
+  type ServiceProxyOptions,
+} from "./service-proxy";
+import {
+  connectClient,
+  createTransportSender,
+  subscribeToReplies,
+  type AnyTransportOptions,
+  type TransportName,
+  type TransportOptions,
+} from "./transports";
+import {
+  ClientProxy,
+  ClientProxyFactory,
+  type ClientOptions,
+} from "@nestjs/microservices";
 import { Logger } from "@nestjs/common";
 
-export const SERVICE_TIMEOUT = 5000;
+export { DEFAULT_POLICY, SERVICE_TIMEOUT } from "./policy";
+export type { ServiceName } from "./service-proxy";
+export {
+  createProxyMock,
+  UnconfiguredMockError,
+  type ProxyMock,
+  type ProxyMockOptions,
+} from "./proxy-mock";
+export type {
+  AnyTransportOptions,
+  HeaderOptions,
+  KafkaCallOptions,
+  MqttCallOptions,
+  RmqCallOptions,
+  TransportName,
+  TransportOptions,
+} from "./transports";
+
+/**
+ * Declares an event the service publishes without handling it, so that its proxy gets a typed `emit*` method for it.
+ * Only read by the generator, e.g. `@EmitsEvent<UserDeleted>("users.user-deleted")` on the publishing class or method.
+ */
+export function EmitsEvent<_Payload = void>(
+  _pattern: string
+): ClassDecorator & MethodDecorator {
+  // Nothing to record at runtime, the generator reads the decorator from the source
+  return () => {};
+}
 
-export interface Options {
-  timeout?: number;
+/**
+ * Sets the contract version of a message handler, or of every message handler of a controller.
+ * Only read by the generator, which generates a proxy per version, e.g. `@ContractVersion(2)` next to the version 1 handler of the same name.
+ */
+export function ContractVersion(
+  _version: number
+): ClassDecorator & MethodDecorator {
+  // Nothing to record at runtime, the generator reads the decorator from the source
+  return () => {};
 }
 
+/** Options of a call: its policy, and the options of the transport of the service, e.g. `Options<"kafka">`. Options of every transport if it isn't known */
+export type Options<T extends TransportName = TransportName> = CallPolicy &
+  (TransportName extends T ? AnyTransportOptions : TransportOptions[T]);
+
 type WrapReturn<R, MethodName> = MethodName extends `${string}$`
   ? Observable<ObservedValueOf<R>>
   : R extends Promise<any>
@@ -34,8 +85,11 @@ type Helper1<
   ? (options?: Options) => WrapReturn<Ret, MethodName>
   : (payload: Args[ArgIndex], options?: Options) => WrapReturn<Ret, MethodName>;
 
-/* Extract overloaded parameters and return types of functions with up to three signatures */
-type Overloads<Function, N, I extends number> = Function extends {
+/**
+ * Extract overloaded parameters and return types of functions with up to three signatures
+ * @deprecated Generated proxies declare the signatures of their methods, this is kept for proxies declared with `ProxyMethod`
+ */
+export type Overloads<Function, N, I extends number> = Function extends {
   (..._: infer A1): infer R1;
   (..._: infer A2): infer R2;
   (..._: infer A3): infer R3;
@@ -47,13 +101,27 @@ type Overloads<Function, N, I extends number> = Function extends {
   ? Helper1<A1, R1, N, I>
   : never;
 
+/**
+ * Client method of a handler, inferred from the controller
+ * @deprecated Generated proxies declare the signatures of their methods, which also supports generic handlers
+ */
 export type ProxyMethod<
   Controller,
   MethodName extends keyof Controller,
   ArgIndex extends number
 > = Overloads<Controller[MethodName], MethodName, ArgIndex>;
 
-type ServiceName = string & keyof typeof patternMap;
+export interface ClientProxyOptions extends ServiceProxyOptions {
+  /** Interceptors of every call, the first one is the outermost */
+  interceptors?: ClientInterceptor[];
+}
+
+const CLIENT = Symbol("client");
+
+/** Closes the connection of a proxy created by `createClientProxy` */
+export async function closeClientProxy(proxy: object) {
+  await (proxy as { [CLIENT]?: ClientProxy })[CLIENT]?.close();
+}
 
 export function createClientProxy<
   Service extends { token: Token },
@@ -61,28 +129,37 @@ export function createClientProxy<
 >(
   serviceName: ServiceName,
   token: Token,
-  clientOptions: ClientOptions
+  /** Options of the client, or a client to use, e.g. an `InProcessClient` */
+  clientOptions: ClientOptions | ClientProxy,
+  proxyOptions: ClientProxyOptions = {}
 ): Service {
   const logger = new Logger(`ClientProxy(${String(token)})`);
-  const client = ClientProxyFactory.create(clientOptions);
-  let firstCall = true;
+  const client =
+    clientOptions instanceof ClientProxy
+      ? clientOptions
+      : ClientProxyFactory.create(clientOptions);
+  subscribeToReplies(
+    client,
+    getServicePatterns(serviceName)
+      .filter(([, , kind]) => kind != "event")
+      .map(([pattern]) => pattern)
+  );
+  const sendRecord = createTransportSender(client);
+  const policy = { ...DEFAULT_POLICY, ...proxyOptions.policy };
+  let isConnected = false;
 
+  // Connecting is a no-op while connected, after the connection dropped it reconnects
   const connect = () => {
-    if (!firstCall) {
-      return client.status.pipe(
-        tap((s) => {
-          if (s !== "connected") {
-            throw new Error(`Client not connected to ${serviceName}`);
-          }
-        })
-      );
-    }
-    firstCall = false;
-    const attempt$ = defer(() => client.connect());
-    const connection$ = attempt$.pipe(
-      timeout(2000),
-      tap({ error: (e) => logger.warn(e, serviceName) }),
-      retry({ count: 5, delay: 3000 }),
+    const attempt$ = defer(() => connectClient(client));
+    return attempt$.pipe(
+      timeout(policy.connectTimeout),
+      tap({
+        error: (e) => {
+          isConnected = false;
+          logger.warn(e, serviceName);
+        },
+      }),
+      retryWithBackoff(policy.connectRetry),
       tap({
         error: (err) => {
           logger.error({
@@ -90,38 +167,29 @@ export function createClientProxy<
             message: `Max retries exceeded, unable to connect to ${serviceName}`,
           });
         },
-        next: () => logger.debug(`${serviceName} connection established`),
+        next: () => {
+          if (isConnected) return;
+          isConnected = true;
+          logger.debug(`${serviceName} connection established`);
+        },
       })
     );
-    return connection$;
   };
 
-  const proxy = new Proxy(
-    {},
+  return createServiceProxy<Service>(
+    serviceName,
+    { [CLIENT]: client },
     {
-      get(target: any, methodName: string) {
-        if (methodName in target) return target[methodName];
-
-        const [pattern, hasPayload] = patternMap[serviceName];
-        const isEmitMethod = methodName.startsWith("emit");
-        const isObservable = isEmitMethod || methodName.endsWith("$");
-        const m = client[isEmitMethod ? "emit" : "send"].bind(client);
-
-        target[methodName] = (arg1: unknown, arg2: unknown) => {
-          const payload = hasPayload ? arg1 : {};
-          const options = (hasPayload ? arg2 : arg1) as Options | undefined;
-          const ms = options?.timeout ?? SERVICE_TIMEOUT;
-          const ob$ = connect().pipe(
-            first(),
-            switchMap(() => m(pattern, payload).pipe(timeout(ms)))
-          );
-          return isObservable ? ob$ : lastValueFrom(ob$);
-        };
-
-        return target[methodName];
-      },
-    }
+      connect,
+      send: ({ kind, pattern, payload, options }) =>
+        sendRecord(kind, pattern, payload, options as Options),
+      intercept: (call, send) =>
+        runInterceptors(
+          proxyOptions.interceptors ?? [],
+          call as ClientCallContext,
+          send
+        ),
+    },
+    proxyOptions
   );
-
-  return proxy;
 }
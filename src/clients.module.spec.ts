@@ -0,0 +1,185 @@
+import "reflect-metadata";
+import {
+  Controller,
+  Injectable,
+  Module,
+  type INestApplicationContext,
+  type INestMicroservice,
+} from "@nestjs/common";
+import { NestFactory } from "@nestjs/core";
+import { MessagePattern, Payload } from "@nestjs/microservices";
+import { map } from "rxjs";
+import {
+  ClientsGeneratorModule,
+  InjectServiceClient,
+  getServiceClientToken,
+} from "./clients.module";
+import { InProcessClient, InProcessServer } from "./in-process.transport";
+import type { ClientInterceptor } from "./interceptors";
+
+jest.mock(
+  "./generated/patterns",
+  () => ({
+    patternMap: {
+      users: { getUser: ["users.get", true, "message"] },
+    },
+  }),
+  { virtual: true }
+);
+
+interface UsersProxy {
+  getUser(id: number): Promise<{ id: number }>;
+}
+
+@Controller()
+class UsersController {
+  @MessagePattern("users.get")
+  getUser(@Payload() id: number) {
+    return { id };
+  }
+}
+
+@Module({ controllers: [UsersController] })
+class ServicesModule {}
+
+const USERS_CLIENT = Symbol("USERS_CLIENT");
+
+/** Interceptor recording its calls and tagging the replies with its name */
+const tag = (name: string, calls: string[]): ClientInterceptor => ({
+  intercept(context, next) {
+    calls.push(`${name} ${context.methodName}`);
+    return next
+      .handle()
+      .pipe(map((reply) => ({ ...(reply as object), [name]: true })));
+  },
+});
+
+describe("ClientsGeneratorModule", () => {
+  let services: INestMicroservice;
+  let server: InProcessServer;
+
+  beforeAll(async () => {
+    server = new InProcessServer();
+    services = await NestFactory.createMicroservice(ServicesModule, {
+      strategy: server,
+      logger: false,
+    });
+    await services.listen();
+  });
+
+  afterAll(() => services.close());
+
+  describe("with registered clients", () => {
+    let app: INestApplicationContext;
+    let client: InProcessClient;
+    const calls: string[] = [];
+
+    @Injectable()
+    class UsersConsumer {
+      constructor(@InjectServiceClient("users") readonly users: UsersProxy) {}
+    }
+
+    beforeAll(async () => {
+      client = new InProcessClient(server);
+
+      @Module({
+        imports: [
+          ClientsGeneratorModule.register(
+            [
+              {
+                name: "users",
+                client,
+                interceptors: [tag("client", calls)],
+              },
+            ],
+            { interceptors: [tag("module", calls)] }
+          ),
+        ],
+        providers: [UsersConsumer],
+      })
+      class AppModule {}
+
+      app = await NestFactory.createApplicationContext(AppModule, {
+        logger: false,
+      });
+    });
+
+    it("injects the proxy of the service", async () => {
+      const { users } = app.get(UsersConsumer);
+
+      expect(app.get(getServiceClientToken("users"))).toBe(users);
+      await expect(users.getUser(1)).resolves.toMatchObject({ id: 1 });
+    });
+
+    it("runs the interceptors of the module around those of the client", async () => {
+      calls.length = 0;
+
+      await expect(app.get(UsersConsumer).users.getUser(2)).resolves.toEqual({
+        id: 2,
+        client: true,
+        module: true,
+      });
+      expect(calls).toEqual(["module getUser", "client getUser"]);
+    });
+
+    it("closes the clients on shutdown", async () => {
+      const close = jest.spyOn(client, "close");
+
+      await app.close();
+
+      expect(close).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("with clients registered asynchronously", () => {
+    let app: INestApplicationContext;
+
+    @Module({
+      providers: [
+        {
+          provide: USERS_CLIENT,
+          useFactory: () => new InProcessClient(server),
+        },
+      ],
+      exports: [USERS_CLIENT],
+    })
+    class ConfigModule {}
+
+    @Injectable()
+    class UsersConsumer {
+      constructor(@InjectServiceClient("users") readonly users: UsersProxy) {}
+    }
+
+    beforeAll(async () => {
+      @Module({
+        imports: [
+          ClientsGeneratorModule.registerAsync([
+            {
+              name: "users",
+              imports: [ConfigModule],
+              inject: [USERS_CLIENT],
+              useFactory: async (client: InProcessClient) => ({ client }),
+            },
+          ]),
+        ],
+        providers: [UsersConsumer],
+      })
+      class AppModule {}
+
+      app = await NestFactory.createApplicationContext(AppModule, {
+        logger: false,
+      });
+    });
+
+    afterAll(() => app.close());
+
+    it("creates the proxy with the injected dependencies", async () => {
+      const send = jest.spyOn(app.get<InProcessClient>(USERS_CLIENT), "send");
+
+      await expect(app.get(UsersConsumer).users.getUser(3)).resolves.toEqual({
+        id: 3,
+      });
+      expect(send).toHaveBeenCalledWith("users.get", 3);
+    });
+  });
+});
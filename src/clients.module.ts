@@ -0,0 +1,141 @@
+import {
+  DynamicModule,
+  Inject,
+  InjectionToken,
+  Module,
+  ModuleMetadata,
+  OnApplicationShutdown,
+  OptionalFactoryDependency,
+  Provider,
+} from "@nestjs/common";
+import type { ClientOptions, ClientProxy } from "@nestjs/microservices";
+import {
+  closeClientProxy,
+  createClientProxy,
+  type ClientProxyOptions,
+  type ServiceName,
+} from "./client.service";
+import type { ClientInterceptor } from "./interceptors";
+
+const CLIENT_PROXIES = Symbol("CLIENT_PROXIES");
+
+/** Proxy of a registered service, typed by the proxy interface where it's injected */
+type ServiceClient = { token: symbol };
+
+export interface ServiceClientOptions extends ClientProxyOptions {
+  /** Key of the service in the pattern map, e.g. `users` */
+  name: ServiceName;
+  /** Options of the client, or a client to use, e.g. an `InProcessClient` */
+  client: ClientOptions | ClientProxy;
+}
+
+export interface ServiceClientAsyncOptions
+  extends Pick<ModuleMetadata, "imports"> {
+  name: ServiceName;
+  inject?: (InjectionToken | OptionalFactoryDependency)[];
+  useFactory: (
+    ...args: any[]
+  ) =>
+    | Omit<ServiceClientOptions, "name">
+    | Promise<Omit<ServiceClientOptions, "name">>;
+}
+
+export interface ClientsGeneratorModuleOptions {
+  /** Registers the clients in the global scope, so they can be injected without importing the module */
+  isGlobal?: boolean;
+  /** Interceptors of every registered client, outside of the interceptors of each client */
+  interceptors?: ClientInterceptor[];
+}
+
+/** Injection token of the proxy of a service registered with `ClientsGeneratorModule` */
+export function getServiceClientToken(name: ServiceName) {
+  return Symbol.for(`ServiceClient(${name})`);
+}
+
+/** Injects the proxy of a service registered with `ClientsGeneratorModule` */
+export function InjectServiceClient(name: ServiceName) {
+  return Inject(getServiceClientToken(name));
+}
+
+/**
+ * Provides one typed proxy per registered service and closes their connections on application shutdown.
+ *
+ * @example
+ * ClientsGeneratorModule.registerAsync([
+ *   {
+ *     name: "users",
+ *     imports: [ConfigModule],
+ *     inject: [ConfigService],
+ *     useFactory: (config: ConfigService) => ({
+ *       client: { transport: Transport.TCP, options: { port: config.get("USERS_PORT") } },
+ *     }),
+ *   },
+ * ]);
+ */
+@Module({})
+export class ClientsGeneratorModule implements OnApplicationShutdown {
+  constructor(@Inject(CLIENT_PROXIES) private readonly proxies: object[]) {}
+
+  static register(
+    clients: ServiceClientOptions[],
+    options: ClientsGeneratorModuleOptions = {}
+  ): DynamicModule {
+    return this.registerAsync(
+      clients.map(({ name, ...clientOptions }) => ({
+        name,
+        useFactory: () => clientOptions,
+      })),
+      options
+    );
+  }
+
+  static registerAsync(
+    clients: ServiceClientAsyncOptions[],
+    { isGlobal = false, interceptors = [] }: ClientsGeneratorModuleOptions = {}
+  ): DynamicModule {
+    // Proxies created by this registration, closed on shutdown
+    const proxies: object[] = [];
+
+    const clientProviders = clients.map(
+      ({ name, inject = [], useFactory }): Provider => {
+        const token = getServiceClientToken(name);
+        return {
+          provide: token,
+          inject,
+          useFactory: async (...args: unknown[]) => {
+            const { client, ...proxyOptions } = await useFactory(...args);
+            const proxy = createClientProxy<ServiceClient, symbol>(
+              name,
+              token,
+              client,
+              {
+                ...proxyOptions,
+                interceptors: [
+                  ...interceptors,
+                  ...(proxyOptions.interceptors ?? []),
+                ],
+              }
+            );
+            proxies.push(proxy);
+            return proxy;
+          },
+        };
+      }
+    );
+
+    return {
+      module: ClientsGeneratorModule,
+      global: isGlobal,
+      imports: clients.flatMap((client) => client.imports ?? []),
+      providers: [
+        { provide: CLIENT_PROXIES, useValue: proxies },
+        ...clientProviders,
+      ],
+      exports: clients.map((client) => getServiceClientToken(client.name)),
+    };
+  }
+
+  async onApplicationShutdown() {
+    await Promise.all(this.proxies.map(closeClientProxy));
+  }
+}
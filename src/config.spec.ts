@@ -0,0 +1,212 @@
+import * as path from "node:path";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import { loadConfig, parseCliArgs, resolveConfig } from "./config";
+import { defaultConventions } from "./conventions";
+
+describe("parseCliArgs", () => {
+  it("generates without overrides by default", () => {
+    expect(parseCliArgs([])).toEqual({
+      command: "generate",
+      configFile: undefined,
+      help: undefined,
+      watch: undefined,
+      check: false,
+      diagnosticsFormat: "human",
+      diagnosticsFile: undefined,
+      against: "HEAD",
+      current: undefined,
+      graphFormat: "json",
+      graphFile: undefined,
+      overrides: {},
+    });
+  });
+
+  it("parses the flags into overrides of the config", () => {
+    const { command, configFile, watch, overrides } = parseCliArgs([
+      "generate",
+      "-c",
+      "generator.json",
+      "-w",
+      "--services",
+      "apps/*/src/main.module.ts",
+      "--services",
+      "libs/*/src/*.module.ts",
+      "--target",
+      "standalone",
+      "--mocks",
+      "--payload-decorator",
+      "CurrentUser=user",
+      "--payload-decorator",
+      "Data",
+      "--transport",
+      "users=kafka",
+      "--emit-prefix",
+      "publish",
+      "--streaming",
+      "returnType",
+    ]);
+
+    expect({ command, configFile, watch }).toEqual({
+      command: "generate",
+      configFile: "generator.json",
+      watch: true,
+    });
+    expect(overrides).toEqual({
+      services: ["apps/*/src/main.module.ts", "libs/*/src/*.module.ts"],
+      target: "standalone",
+      mocks: true,
+      payloadDecorators: { CurrentUser: "user", Data: true },
+      transports: { users: "kafka" },
+      conventions: { emitPrefix: "publish", streaming: "returnType" },
+    });
+  });
+
+  it("parses the options of the diff and graph commands", () => {
+    expect(
+      parseCliArgs([
+        "diff",
+        "--against",
+        "main",
+        "--diagnostics-format",
+        "sarif",
+      ])
+    ).toMatchObject({
+      command: "diff",
+      against: "main",
+      diagnosticsFormat: "sarif",
+    });
+    expect(
+      parseCliArgs([
+        "graph",
+        "--graph-format",
+        "mermaid",
+        "--callers",
+        "src/**",
+      ])
+    ).toMatchObject({
+      command: "graph",
+      graphFormat: "mermaid",
+      overrides: { callers: ["src/**"] },
+    });
+  });
+
+  it.each([
+    [["--unknown"], "Unknown option '--unknown'"],
+    [["publish"], `Unknown command "publish"`],
+    [["diff", "graph"], `Unknown command "diff graph"`],
+    [["--target", "browser"], `Unknown target "browser"`],
+    [["--streaming", "prefix"], `Unknown streaming convention "prefix"`],
+    [["--diagnostics-format", "xml"], `Unknown diagnostics format "xml"`],
+    [["--graph-format", "svg"], `Unknown graph format "svg"`],
+    [["--transport", "users=http"], `Invalid transport "users=http"`],
+    [["--transport", "kafka"], `Invalid transport "kafka"`],
+  ])("rejects %j", (args, message) => {
+    expect(() => parseCliArgs(args)).toThrow(message);
+  });
+});
+
+describe("loadConfig", () => {
+  let root: string;
+
+  afterEach(() => removeWorkspace(root));
+
+  it("resolves the defaults against the root", async () => {
+    root = await createWorkspace({});
+
+    const config = await loadConfig({ root });
+
+    expect(config).toMatchObject({
+      root,
+      tsconfig: path.join(root, "tsconfig.json"),
+      services: ["apps/*/src/*.module.ts"],
+      clientService: path.join(root, "libs/proxies/src/client.service.ts"),
+      patternsFile: path.join(root, "libs/proxies/src/generated/patterns.ts"),
+      target: "nest",
+      conventions: defaultConventions,
+    });
+  });
+
+  it("defaults the root to $WORKSPACE_ROOT when the config is loaded", async () => {
+    root = await createWorkspace({});
+    const workspaceRoot = process.env.WORKSPACE_ROOT;
+    process.env.WORKSPACE_ROOT = root;
+
+    try {
+      expect((await loadConfig()).root).toBe(root);
+      expect(resolveConfig({}).root).toBe(root);
+    } finally {
+      if (workspaceRoot === undefined) delete process.env.WORKSPACE_ROOT;
+      else process.env.WORKSPACE_ROOT = workspaceRoot;
+    }
+  });
+
+  it("merges the config file under the overrides", async () => {
+    root = await createWorkspace({
+      "client-generator.config.ts": `
+        export default {
+          services: ["services/*/main.module.ts"],
+          manifestFile: "contracts.json",
+          mocks: true,
+          conventions: { emitPrefix: "publish", streaming: "returnType" },
+        };
+      `,
+    });
+
+    const config = await loadConfig({
+      root,
+      mocks: false,
+      conventions: { emitPrefix: "send" },
+    });
+
+    expect(config).toMatchObject({
+      services: ["services/*/main.module.ts"],
+      manifestFile: path.join(root, "contracts.json"),
+      mocks: false,
+      conventions: {
+        ...defaultConventions,
+        emitPrefix: "send",
+        streaming: "returnType",
+      },
+    });
+  });
+
+  it("reads the config of package.json", async () => {
+    root = await createWorkspace({
+      "package.json": JSON.stringify({
+        name: "workspace",
+        clientGenerator: { target: "standalone" },
+      }),
+    });
+
+    const config = await loadConfig({ root });
+
+    expect(config).toMatchObject({
+      target: "standalone",
+      clientService: path.join(root, "libs/proxies/src/standalone.client.ts"),
+    });
+  });
+
+  it("reads a given config file, whose root yields to the root override", async () => {
+    root = await createWorkspace({
+      "config/generator.json": JSON.stringify({
+        root: "packages/api",
+        tsconfig: "tsconfig.build.json",
+      }),
+    });
+
+    const config = await loadConfig({ root }, "config/generator.json");
+
+    expect(config).toMatchObject({
+      root,
+      tsconfig: path.join(root, "tsconfig.build.json"),
+    });
+  });
+
+  it("fails on a config file that doesn't exist", async () => {
+    root = await createWorkspace({});
+
+    await expect(loadConfig({ root }, "missing.json")).rejects.toThrow(
+      "ENOENT"
+    );
+  });
+});
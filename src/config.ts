@@ -0,0 +1,441 @@
+import * as fs from "node:fs/promises";
+import { createRequire } from "node:module";
+import * as path from "node:path";
+import { parseArgs } from "node:util";
+import * as R from "remeda";
+import * as tsm from "ts-morph";
+import {
+  Conventions,
+  STREAMING_CONVENTIONS,
+  StreamingConvention,
+  defaultConventions,
+} from "./conventions";
+import { DIAGNOSTIC_FORMATS, DiagnosticFormat } from "./diagnostics";
+
+/** Transports of Nest microservices, like the `Transport` enum in lower case */
+export const TRANSPORTS = [
+  "tcp",
+  "redis",
+  "nats",
+  "mqtt",
+  "grpc",
+  "rmq",
+  "kafka",
+] as const;
+
+export type TransportName = (typeof TRANSPORTS)[number];
+
+/** Transports whose wire protocol the standalone client speaks */
+export const STANDALONE_TRANSPORTS: TransportName[] = ["tcp", "redis"];
+
+/** Runtime clients the generated proxies are for: `createClientProxy` of Nest applications, or `createStandaloneClient` without Nest */
+export const TARGETS = ["nest", "standalone"] as const;
+
+export type Target = (typeof TARGETS)[number];
+
+export interface GeneratorConfig {
+  /** Workspace root. Every other path is resolved relative to it */
+  root: string;
+  /** tsconfig used to create the type checker */
+  tsconfig: string;
+  /** Globs matching the main module of each service */
+  services: string[];
+  /** Globs matching controller files, relative to the directory of the main module */
+  controllers: string[];
+  /** Runtime client file, added to the type checker along with the main modules */
+  clientService: string;
+  /** Output file of the pattern map. Defaults to `generated/patterns.ts` next to `clientService` */
+  patternsFile?: string;
+  /** Output directory of `*.proxy.generated.ts` files. Defaults to the directory of each main module */
+  proxiesDir?: string;
+  /** Module specifier used to import `Options` in generated proxies */
+  clientImport: string;
+  /** Runtime client of the generated proxies. The standalone client only speaks the TCP and Redis transports */
+  target: Target;
+  /** Declare the payload and return types, and the DTOs and enums they reference, in generated proxies instead of importing them from the services */
+  standaloneTypes?: boolean;
+  /** Also generate a typed mock factory next to each proxy, e.g. `createUsersProxyMock()` in `users.proxy.mock.generated.ts` */
+  mocks?: boolean;
+  /** Output file of the JSON service manifest. Not generated if omitted */
+  manifestFile?: string;
+  /** Output file of the payload schemas used to validate payloads at runtime. Not generated if omitted */
+  validatorsFile?: string;
+  /** Output file of the AsyncAPI 3 document of the workspace, or of each service if it contains `{service}`, e.g. `docs/{service}.asyncapi.json`. Not generated if omitted */
+  asyncApiFile?: string;
+  /** Custom parameter decorators that read the payload, by name: `true` for the whole payload, or the key of the property they read */
+  payloadDecorators?: Record<string, string | true>;
+  /** File exporting an `Events` interface of events published without a handler in the workspace, mapping their patterns to payload types */
+  eventsFile?: string;
+  /** Transport of each service, by its key in the pattern map, e.g. `{ users: "kafka" }`. Proxies of other services accept the call options of every transport */
+  transports?: Record<string, TransportName>;
+  /** Globs matching the files scanned for calls of the proxies by the `graph` command */
+  callers: string[];
+  /** Naming conventions of handlers, events and services */
+  conventions: Conventions;
+}
+
+export type UserConfig = Partial<Omit<GeneratorConfig, "conventions">> & {
+  conventions?: Partial<Conventions>;
+};
+
+export const CONFIG_FILE_NAMES = [
+  "client-generator.config.ts",
+  "client-generator.config.js",
+  "client-generator.config.cjs",
+  "client-generator.config.json",
+];
+
+export const PACKAGE_JSON_KEY = "clientGenerator";
+
+/** Workspace root unless configured, read when the config is resolved rather than when this module is imported */
+function getDefaultRoot() {
+  return process.env.WORKSPACE_ROOT || process.cwd();
+}
+
+export const defaultConfig: Omit<GeneratorConfig, "root"> = {
+  tsconfig: "tsconfig.json",
+  services: ["apps/*/src/*.module.ts"],
+  controllers: ["**/?(*.)controller.ts"],
+  clientService: "libs/proxies/src/client.service.ts",
+  clientImport: "libs/proxies/client.service",
+  target: "nest",
+  callers: ["**/*.ts", "!**/*.d.ts"],
+  conventions: defaultConventions,
+};
+
+/** Typed helper for `client-generator.config.ts` files */
+export function defineConfig(config: UserConfig) {
+  return config;
+}
+
+/** Defaults of the standalone target, used unless configured otherwise */
+const standaloneDefaults: Partial<GeneratorConfig> = {
+  clientService: "libs/proxies/src/standalone.client.ts",
+  clientImport: "libs/proxies/standalone.client",
+};
+
+export const COMMANDS = ["generate", "diff", "graph"] as const;
+
+export type Command = (typeof COMMANDS)[number];
+
+export const GRAPH_FORMATS = ["json", "dot", "mermaid"] as const;
+
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+export const usage = `Usage: generate-patterns-from-decorators [generate|diff|graph] [options]
+
+Commands:
+  generate (default)          Generate the proxy interfaces and the pattern map
+  diff                        Report breaking changes of the contracts against a baseline
+  graph                       Print the calls between services and report unused handlers, calls of missing methods and cycles
+
+Options:
+  -c, --config <file>         Config file (default: client-generator.config.ts or "clientGenerator" in package.json)
+      --root <dir>            Workspace root (default: $WORKSPACE_ROOT or cwd)
+      --tsconfig <file>       tsconfig used by the type checker (default: tsconfig.json)
+      --services <glob>       Main module glob, repeatable (default: apps/*/src/*.module.ts)
+      --controllers <glob>    Controller glob relative to the main module, repeatable (default: **/?(*.)controller.ts)
+      --client-service <file> Runtime client file (default: libs/proxies/src/client.service.ts)
+      --patterns-file <file>  Output file of the pattern map (default: generated/patterns.ts next to the client service)
+      --proxies-dir <dir>     Output directory of proxy interfaces (default: directory of each main module)
+      --client-import <path>  Import path of the runtime client in proxies (default: libs/proxies/client.service)
+      --target <nest|standalone>
+                              Runtime client of the proxies, standalone for consumers without Nest,
+                              whose client service defaults to libs/proxies/src/standalone.client.ts (default: nest)
+      --standalone-types      Declare the types used by proxies in the generated files instead of importing them
+      --mocks                 Generate a typed mock factory for each proxy
+      --manifest-file <file>  Output file of the JSON service manifest (default: not generated)
+      --validators-file <file>
+                              Output file of the payload schemas for runtime validation (default: not generated)
+      --asyncapi-file <file>  Output file of the AsyncAPI document, "{service}" for one per service (default: not generated)
+      --events-file <file>    File declaring events published without a handler (default: none)
+      --payload-decorator <name[=key]>
+                              Custom parameter decorator reading the payload, or its property "key", repeatable
+      --transport <service=transport>
+                              Transport of a service: ${TRANSPORTS.join(
+                                ", "
+                              )}, repeatable
+      --emit-prefix <prefix>  Prefix of the client methods of events (default: emit)
+      --streaming <suffix|returnType>
+                              Recognize streaming handlers by a "$" name suffix or an Observable return type (default: suffix)
+      --event-pattern <regex> Regular expression of event patterns, "{service}" is the kebab case service name
+                              (default: ^{service}\.(?<name>[\w-]+)$)
+  -w, --watch                 Regenerate the proxies of affected services when source files change
+      --check                 Fail with a diff instead of writing when generated files are out of date
+      --diagnostics-format <format>
+                              Output format of diagnostics: human, json or sarif (default: human)
+      --diagnostics-file <file>
+                              Write diagnostics to a file instead of the console
+  -h, --help                  Show this message
+
+Diff options:
+      --against <ref|file>    Baseline: a git ref or a manifest file (default: HEAD)
+      --current <file>        Manifest to compare instead of the contracts extracted from the workspace
+
+Graph options:
+      --callers <glob>        Files scanned for calls of the proxies, repeatable (default: **/*.ts, !**/*.d.ts)
+      --graph-format <format> Output format of the call graph: json, dot or mermaid (default: json)
+      --graph-file <file>     Write the call graph to a file instead of stdout
+`;
+
+/** Parses `Name` and `Name=key` flags into `payloadDecorators` */
+function parsePayloadDecorators(flags: string[]) {
+  return R.pullObject(
+    flags.map((flag) => flag.split("=")),
+    ([name]) => name,
+    ([, key]): string | true => key || true
+  );
+}
+
+/** Parses `service=transport` flags into `transports` */
+function parseTransports(flags: string[]) {
+  return R.pullObject(
+    flags.map((flag) => {
+      const [service, transport] = flag.split("=");
+      if (!service || !TRANSPORTS.includes(transport as TransportName)) {
+        throw new Error(
+          `Invalid transport "${flag}", expected <service>=<transport> with one of: ${TRANSPORTS.join(
+            ", "
+          )}`
+        );
+      }
+      return [service, transport as TransportName] as const;
+    }),
+    ([service]) => service,
+    ([, transport]) => transport
+  );
+}
+
+export function parseCliArgs(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      config: { type: "string", short: "c" },
+      root: { type: "string" },
+      tsconfig: { type: "string" },
+      services: { type: "string", multiple: true },
+      controllers: { type: "string", multiple: true },
+      "client-service": { type: "string" },
+      "patterns-file": { type: "string" },
+      "proxies-dir": { type: "string" },
+      "client-import": { type: "string" },
+      target: { type: "string" },
+      "standalone-types": { type: "boolean" },
+      mocks: { type: "boolean" },
+      "manifest-file": { type: "string" },
+      "validators-file": { type: "string" },
+      "asyncapi-file": { type: "string" },
+      "payload-decorator": { type: "string", multiple: true },
+      "events-file": { type: "string" },
+      transport: { type: "string", multiple: true },
+      "emit-prefix": { type: "string" },
+      streaming: { type: "string" },
+      "event-pattern": { type: "string" },
+      watch: { type: "boolean", short: "w" },
+      check: { type: "boolean" },
+      "diagnostics-format": { type: "string", default: "human" },
+      "diagnostics-file": { type: "string" },
+      against: { type: "string", default: "HEAD" },
+      current: { type: "string" },
+      callers: { type: "string", multiple: true },
+      "graph-format": { type: "string", default: "json" },
+      "graph-file": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const command = (positionals[0] ?? "generate") as Command;
+  if (!COMMANDS.includes(command) || positionals.length > 1) {
+    throw new Error(
+      `Unknown command "${positionals.join(
+        " "
+      )}", expected one of: ${COMMANDS.join(", ")}`
+    );
+  }
+
+  const diagnosticsFormat = values["diagnostics-format"] as DiagnosticFormat;
+  if (!DIAGNOSTIC_FORMATS.includes(diagnosticsFormat)) {
+    throw new Error(
+      `Unknown diagnostics format "${diagnosticsFormat}", expected one of: ${DIAGNOSTIC_FORMATS.join(
+        ", "
+      )}`
+    );
+  }
+
+  const graphFormat = values["graph-format"] as GraphFormat;
+  if (!GRAPH_FORMATS.includes(graphFormat)) {
+    throw new Error(
+      `Unknown graph format "${graphFormat}", expected one of: ${GRAPH_FORMATS.join(
+        ", "
+      )}`
+    );
+  }
+
+  const target = values.target as Target | undefined;
+  if (target && !TARGETS.includes(target)) {
+    throw new Error(
+      `Unknown target "${target}", expected one of: ${TARGETS.join(", ")}`
+    );
+  }
+
+  const streaming = values.streaming as StreamingConvention | undefined;
+  if (streaming && !STREAMING_CONVENTIONS.includes(streaming)) {
+    throw new Error(
+      `Unknown streaming convention "${streaming}", expected one of: ${STREAMING_CONVENTIONS.join(
+        ", "
+      )}`
+    );
+  }
+  const conventions: Partial<Conventions> = R.pickBy(
+    {
+      emitPrefix: values["emit-prefix"],
+      streaming,
+      eventPattern: values["event-pattern"],
+    },
+    R.isDefined
+  );
+
+  const overrides: UserConfig = R.pickBy(
+    {
+      root: values.root,
+      tsconfig: values.tsconfig,
+      services: values.services,
+      controllers: values.controllers,
+      clientService: values["client-service"],
+      patternsFile: values["patterns-file"],
+      proxiesDir: values["proxies-dir"],
+      clientImport: values["client-import"],
+      target,
+      standaloneTypes: values["standalone-types"],
+      mocks: values.mocks,
+      manifestFile: values["manifest-file"],
+      validatorsFile: values["validators-file"],
+      asyncApiFile: values["asyncapi-file"],
+      eventsFile: values["events-file"],
+      conventions: R.isEmpty(conventions) ? undefined : conventions,
+      payloadDecorators:
+        values["payload-decorator"] &&
+        parsePayloadDecorators(values["payload-decorator"]),
+      transports: values.transport && parseTransports(values.transport),
+      callers: values.callers,
+    },
+    R.isDefined
+  );
+
+  return {
+    command,
+    configFile: values.config,
+    help: values.help,
+    watch: values.watch,
+    check: values.check ?? false,
+    diagnosticsFormat,
+    diagnosticsFile: values["diagnostics-file"],
+    against: values.against,
+    current: values.current,
+    graphFormat,
+    graphFile: values["graph-file"],
+    overrides,
+  };
+}
+
+async function fileExists(file: string) {
+  return fs.access(file).then(
+    () => true,
+    () => false
+  );
+}
+
+async function importConfigFile(file: string): Promise<UserConfig> {
+  if (file.endsWith(".json")) {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  }
+
+  if (file.endsWith(".ts")) {
+    const source = await fs.readFile(file, "utf8");
+    const { outputText } = tsm.ts.transpileModule(source, {
+      fileName: file,
+      compilerOptions: {
+        module: tsm.ts.ModuleKind.CommonJS,
+        target: tsm.ts.ScriptTarget.ES2022,
+        esModuleInterop: true,
+      },
+    });
+    const module = { exports: {} as Record<string, unknown> };
+    new Function("exports", "require", "module", outputText)(
+      module.exports,
+      createRequire(file),
+      module
+    );
+    return (module.exports.default ?? module.exports) as UserConfig;
+  }
+
+  const exported = await import(file);
+  return exported.default ?? exported;
+}
+
+async function readConfigFile(root: string, configFile?: string) {
+  if (configFile) {
+    return importConfigFile(path.resolve(root, configFile));
+  }
+
+  for (const name of CONFIG_FILE_NAMES) {
+    const file = path.join(root, name);
+    if (await fileExists(file)) return importConfigFile(file);
+  }
+
+  const packageJson = path.join(root, "package.json");
+  if (await fileExists(packageJson)) {
+    const pkg = JSON.parse(await fs.readFile(packageJson, "utf8"));
+    return (pkg[PACKAGE_JSON_KEY] ?? {}) as UserConfig;
+  }
+
+  return {};
+}
+
+/** Resolves relative paths against the workspace root and fills in derived defaults */
+export function resolveConfig(config: UserConfig): GeneratorConfig {
+  const merged = {
+    ...defaultConfig,
+    ...(config.target == "standalone" && standaloneDefaults),
+    ...config,
+  };
+  const root = path.resolve(merged.root ?? getDefaultRoot());
+  const resolve = (p: string) => path.resolve(root, p);
+  const clientService = resolve(merged.clientService);
+
+  return {
+    ...merged,
+    root,
+    tsconfig: resolve(merged.tsconfig),
+    clientService,
+    patternsFile: merged.patternsFile
+      ? resolve(merged.patternsFile)
+      : path.join(path.dirname(clientService), "generated", "patterns.ts"),
+    proxiesDir: merged.proxiesDir && resolve(merged.proxiesDir),
+    manifestFile: merged.manifestFile && resolve(merged.manifestFile),
+    validatorsFile: merged.validatorsFile && resolve(merged.validatorsFile),
+    asyncApiFile: merged.asyncApiFile && resolve(merged.asyncApiFile),
+    eventsFile: merged.eventsFile && resolve(merged.eventsFile),
+    conventions: { ...defaultConventions, ...config.conventions },
+  };
+}
+
+/** Loads the config in this order of precedence: overrides (e.g. command line flags), config file, defaults */
+export async function loadConfig(
+  overrides: UserConfig = {},
+  configFile?: string
+) {
+  const root = path.resolve(overrides.root ?? getDefaultRoot());
+  const fileConfig = await readConfigFile(root, configFile);
+
+  return resolveConfig({
+    ...fileConfig,
+    ...overrides,
+    conventions: { ...fileConfig.conventions, ...overrides.conventions },
+    root:
+      fileConfig.root && !overrides.root
+        ? path.resolve(root, fileConfig.root)
+        : root,
+  });
+}
@@ -0,0 +1,150 @@
+import { execFile } from "node:child_process";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import { resolveConfig } from "./config";
+import { diffManifests, loadBaseline, loadCurrent } from "./contract-diff";
+
+const exec = promisify(execFile);
+
+const controller = (handlers: string) => `
+import { Controller } from "@nestjs/common";
+import { MessagePattern, Payload } from "@nestjs/microservices";
+
+@Controller()
+export class UsersController {
+  @MessagePattern("users.get")
+  getUser(@Payload() id: number): string {
+    return "";
+  }
+${handlers}
+}
+`;
+
+const DELETE_HANDLER = `
+  @MessagePattern("users.delete")
+  deleteUser(@Payload() id: number): boolean {
+    return true;
+  }
+`;
+
+const CONTROLLER_PATH = "packages/api/apps/users/src/users.controller.ts";
+
+async function git(root: string, ...args: string[]) {
+  await exec(
+    "git",
+    ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args],
+    { cwd: root }
+  );
+}
+
+describe("diff against a git ref of a workspace in a subdirectory of the repository", () => {
+  let repo: string;
+  let root: string;
+
+  beforeAll(async () => {
+    repo = await createWorkspace(
+      {
+        ".gitignore": "node_modules\n",
+        "packages/api/apps/users/src/users.module.ts": `
+          import { Module } from "@nestjs/common";
+          import { UsersController } from "./users.controller";
+          @Module({ controllers: [UsersController] })
+          export class UsersModule {}
+        `,
+        [CONTROLLER_PATH]: controller(DELETE_HANDLER),
+      },
+      "packages/api"
+    );
+    root = path.join(repo, "packages/api");
+    await git(repo, "init", "--quiet");
+    await git(repo, "add", "-A");
+    await git(repo, "commit", "--quiet", "-m", "baseline");
+    // Removed since the baseline
+    await fs.writeFile(path.join(repo, CONTROLLER_PATH), controller(""));
+  });
+
+  afterAll(() => removeWorkspace(repo));
+
+  it("extracts the baseline from a worktree of the ref", async () => {
+    const config = resolveConfig({ root });
+    const baseline = await loadBaseline(config, "HEAD");
+    const diagnostics = diffManifests(
+      baseline,
+      await loadCurrent(config),
+      root
+    );
+
+    expect(baseline.services[0].handlers).toHaveLength(2);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: "CG102",
+        message: expect.stringContaining(`"users.delete"`),
+        location: expect.objectContaining({
+          file: path.join(root, "apps/users/src/users.controller.ts"),
+          start: { line: 13, column: 3 },
+        }),
+      }),
+    ]);
+  });
+
+  it("reads the manifest committed at the ref, relative to the workspace", async () => {
+    const config = resolveConfig({ root, manifestFile: "contracts.json" });
+    const current = await loadCurrent(config);
+    const committed = {
+      ...current,
+      services: [
+        ...current.services,
+        { ...current.services[0], name: "Legacy", key: "legacy" },
+      ],
+    };
+    await fs.writeFile(config.manifestFile!, JSON.stringify(committed));
+    await git(repo, "add", "-A");
+    await git(repo, "commit", "--quiet", "-m", "manifest");
+
+    const baseline = await loadBaseline(config, "HEAD");
+
+    expect(baseline).toEqual(committed);
+    expect(diffManifests(baseline, current, root)).toEqual([
+      expect.objectContaining({
+        code: "CG101",
+        message: `Service "Legacy" was removed`,
+      }),
+    ]);
+  });
+
+  it("extracts the contracts again if the committed manifest has another version", async () => {
+    const config = resolveConfig({ root, manifestFile: "contracts.json" });
+    const current = await loadCurrent(config);
+    await fs.writeFile(
+      config.manifestFile!,
+      JSON.stringify({ ...current, version: 2, services: [] })
+    );
+    await git(repo, "add", "-A");
+    await git(repo, "commit", "--quiet", "-m", "old manifest");
+
+    const baseline = await loadBaseline(config, "HEAD");
+
+    expect(baseline.version).toBe(current.version);
+    expect(baseline.services).toHaveLength(1);
+  });
+
+  it("reports manifest files of another version", async () => {
+    const config = resolveConfig({ root });
+    const current = await loadCurrent(config);
+    await fs.writeFile(
+      path.join(root, "old.json"),
+      JSON.stringify({ ...current, version: 2 })
+    );
+
+    const baseline = await loadBaseline(config, "old.json");
+
+    expect(diffManifests(baseline, current, root)).toEqual([
+      expect.objectContaining({
+        code: "CG100",
+        message: `Baseline manifest has version 2, expected version 3`,
+      }),
+    ]);
+  });
+});
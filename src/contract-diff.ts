@@ -0,0 +1,453 @@
+import { execFile } from "node:child_process";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import * as R from "remeda";
+import { GeneratorConfig } from "./config";
+import {
+  Diagnostic,
+  DiagnosticLocation,
+  createDiagnostic,
+  getFileLocation,
+  rules,
+} from "./diagnostics";
+import { extractServices } from "./generator";
+import {
+  ContractManifest,
+  HandlerContract,
+  MANIFEST_VERSION,
+  ServiceContract,
+  buildManifest,
+} from "./manifest";
+import { JsonSchema } from "./json-schema";
+
+const exec = promisify(execFile);
+
+type Issue = {
+  path: string;
+  kind: "required" | "type" | "value";
+  /** Schema or value of the side that is wider than the other */
+  detail: string;
+};
+
+/** Old callers send an empty object to handlers without payload */
+const NO_PAYLOAD: JsonSchema = { type: "object", properties: {} };
+
+function describe(schema: JsonSchema) {
+  if ("const" in schema) return JSON.stringify(schema.const);
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join(" | ");
+  if (schema.$ref) return schema.$ref.replace("#/$defs/", "");
+  if (schema.anyOf) return schema.anyOf.map(describe).join(" | ");
+  if (schema.type == "array" && schema.items) {
+    return `${describe(schema.items)}[]`;
+  }
+  return schema.type ?? "any";
+}
+
+const isAny = (schema: JsonSchema) => R.isEmpty(R.omit(schema, ["$defs"]));
+
+function schemaType(schema: JsonSchema) {
+  if (schema.type) return schema.type;
+  if (schema.properties) return "object";
+  return undefined;
+}
+
+/**
+ * Conservatively checks that every value matching `a` also matches `b` and returns the
+ * places where it doesn't. `defsA` and `defsB` resolve `$ref`s of each side.
+ */
+function findIncompatibilities(
+  a: JsonSchema,
+  b: JsonSchema,
+  defsA: Record<string, JsonSchema>,
+  defsB: Record<string, JsonSchema>,
+  at = "",
+  visited = new Set<string>()
+): Issue[] {
+  const resolve = (s: JsonSchema, defs: Record<string, JsonSchema>) =>
+    s.$ref ? defs[s.$ref.replace("#/$defs/", "")] ?? {} : s;
+
+  if (a.$ref && b.$ref) {
+    const key = `${a.$ref}|${b.$ref}|${at}`;
+    if (visited.has(key)) return [];
+    visited.add(key);
+  }
+  a = resolve(a, defsA);
+  b = resolve(b, defsB);
+
+  const recurse = (x: JsonSchema, y: JsonSchema, subPath = at) =>
+    findIncompatibilities(x, y, defsA, defsB, subPath, visited);
+  const typeIssue = (): Issue[] => [
+    { path: at, kind: "type", detail: `${describe(a)} -> ${describe(b)}` },
+  ];
+
+  if (isAny(b) || b.anyOf?.some(isAny)) return [];
+  if (a.not) return [];
+  if (isAny(a)) return typeIssue();
+
+  if (a.anyOf) return a.anyOf.flatMap((member) => recurse(member, b));
+  if (a.allOf) {
+    const results = a.allOf.map((member) => recurse(member, b));
+    return results.some((issues) => issues.length == 0) ? [] : results[0];
+  }
+  if (b.allOf) return b.allOf.flatMap((member) => recurse(a, member));
+
+  const values = "const" in a ? [a.const] : a.enum;
+  if (values) {
+    return values.flatMap((value) => {
+      const single = { const: value };
+      const accepted = b.anyOf
+        ? b.anyOf.some((member) => recurse(single, member).length == 0)
+        : acceptsValue(b, value);
+      return accepted
+        ? []
+        : [{ path: at, kind: "value" as const, detail: JSON.stringify(value) }];
+    });
+  }
+
+  if (b.anyOf) {
+    const results = b.anyOf.map((member) => recurse(a, member));
+    return results.some((issues) => issues.length == 0)
+      ? []
+      : R.firstBy(results, (issues) => issues.length);
+  }
+  if ("const" in b || b.enum) return typeIssue();
+
+  const typeA = schemaType(a);
+  const typeB = schemaType(b);
+  const isWidening = typeA == "integer" && typeB == "number";
+  if (typeA != typeB && !isWidening) return typeIssue();
+
+  if (typeA == "array") {
+    if (a.prefixItems) {
+      return a.prefixItems.flatMap((item, i) =>
+        recurse(item, b.prefixItems?.[i] ?? b.items ?? {}, `${at}[${i}]`)
+      );
+    }
+    if (b.prefixItems) return typeIssue();
+    return recurse(a.items ?? {}, b.items ?? {}, `${at}[]`);
+  }
+
+  if (typeA == "object") {
+    const propsA = a.properties ?? {};
+    const propsB = b.properties ?? {};
+    const requiredA = a.required ?? [];
+    const propPath = (name: string) => (at ? `${at}.${name}` : name);
+
+    const missing = (b.required ?? [])
+      .filter((name) => !requiredA.includes(name))
+      .map(
+        (name): Issue => ({
+          path: propPath(name),
+          kind: "required",
+          detail: name,
+        })
+      );
+
+    const changed = Object.entries(propsA).flatMap(([name, propA]) => {
+      const propB =
+        propsB[name] ??
+        (typeof b.additionalProperties == "object"
+          ? b.additionalProperties
+          : {});
+      return recurse(propA, propB, propPath(name));
+    });
+
+    return [...missing, ...changed];
+  }
+
+  return [];
+}
+
+function acceptsValue(schema: JsonSchema, value: unknown) {
+  if ("const" in schema) return R.isDeepEqual(schema.const, value);
+  if (schema.enum) return schema.enum.some((v) => R.isDeepEqual(v, value));
+  const type = schemaType(schema);
+  if (!type) return true;
+  if (value === null) return type == "null";
+  if (Array.isArray(value)) return type == "array";
+  if (type == "integer") return Number.isInteger(value);
+  return typeof value == type;
+}
+
+function payloadIssues(before: HandlerContract, after: HandlerContract) {
+  const oldPayload = before.payload ?? NO_PAYLOAD;
+  const newPayload = after.payload ?? {};
+  return findIncompatibilities(
+    oldPayload,
+    newPayload,
+    oldPayload.$defs ?? {},
+    newPayload.$defs ?? {}
+  ).map((issue) => {
+    const where = issue.path ? `"${issue.path}"` : "payload";
+    switch (issue.kind) {
+      case "required":
+        return `property ${where} became required`;
+      case "value":
+        return `${where} no longer accepts ${issue.detail}`;
+      default:
+        return `type of ${where} changed: ${issue.detail}`;
+    }
+  });
+}
+
+function returnIssues(before: HandlerContract, after: HandlerContract) {
+  return findIncompatibilities(
+    after.returns,
+    before.returns,
+    after.returns.$defs ?? {},
+    before.returns.$defs ?? {}
+  ).map((issue) => {
+    const where = issue.path ? `"${issue.path}"` : "reply";
+    switch (issue.kind) {
+      case "required":
+        return `property ${where} was removed or became optional`;
+      case "value":
+        return `${where} may now be ${issue.detail}`;
+      default:
+        return `type of ${where} changed: ${issue.detail
+          .split(" -> ")
+          .reverse()
+          .join(" -> ")}`;
+    }
+  });
+}
+
+function diffService(
+  before: ServiceContract,
+  after: ServiceContract,
+  root: string
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const at = ({
+    controllerPath,
+    line,
+    column,
+  }: HandlerContract): DiagnosticLocation => {
+    const start = { line, column };
+    return { file: path.resolve(root, controllerPath), start, end: start };
+  };
+  const label = (handler: HandlerContract) =>
+    `${handler.kind == "event" ? "Event" : "Message"} handler "${
+      handler.className
+    }.${handler.methodName}" of service "${before.name}"`;
+
+  for (const oldHandler of before.handlers) {
+    const newHandler = after.handlers.find(
+      (h) =>
+        h.kind == oldHandler.kind &&
+        R.isDeepEqual(h.pattern, oldHandler.pattern)
+    );
+
+    if (!newHandler) {
+      const moved = after.handlers.find(
+        (h) =>
+          h.kind == oldHandler.kind &&
+          h.className == oldHandler.className &&
+          h.methodName == oldHandler.methodName
+      );
+      const patterns =
+        moved &&
+        `${JSON.stringify(oldHandler.pattern)} -> ${JSON.stringify(
+          moved.pattern
+        )}`;
+
+      if (moved && moved.kind == "event") {
+        diagnostics.push(
+          createDiagnostic(
+            rules.eventRenamed,
+            `${label(oldHandler)} was renamed: ${patterns}`,
+            at(moved)
+          )
+        );
+      } else if (moved) {
+        diagnostics.push(
+          createDiagnostic(
+            rules.patternChanged,
+            `${label(oldHandler)} changed its pattern: ${patterns}`,
+            at(moved)
+          )
+        );
+      } else {
+        diagnostics.push(
+          createDiagnostic(
+            rules.handlerRemoved,
+            `${label(oldHandler)} with pattern ${JSON.stringify(
+              oldHandler.pattern
+            )} was removed`,
+            at(oldHandler)
+          )
+        );
+      }
+      continue;
+    }
+
+    for (const issue of payloadIssues(oldHandler, newHandler)) {
+      diagnostics.push(
+        createDiagnostic(
+          rules.payloadIncompatible,
+          `${label(newHandler)}: ${issue}`,
+          at(newHandler)
+        )
+      );
+    }
+
+    if (oldHandler.kind == "message") {
+      for (const issue of returnIssues(oldHandler, newHandler)) {
+        diagnostics.push(
+          createDiagnostic(
+            rules.returnTypeChanged,
+            `${label(newHandler)}: ${issue}`,
+            at(newHandler)
+          )
+        );
+      }
+    }
+
+    if (!oldHandler.streaming && newHandler.streaming) {
+      diagnostics.push(
+        createDiagnostic(
+          rules.becameStreaming,
+          `${label(newHandler)} became a streaming handler`,
+          at(newHandler)
+        )
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+/** Reports the changes between two versions of the contracts that break callers of the baseline */
+export function diffManifests(
+  baseline: ContractManifest,
+  current: ContractManifest,
+  root: string
+): Diagnostic[] {
+  const unreadable = R.pipe(
+    [
+      ["Baseline", baseline],
+      ["Current", current],
+    ] as const,
+    R.filter(([, manifest]) => manifest.version !== MANIFEST_VERSION),
+    R.map(([name, manifest]) =>
+      createDiagnostic(
+        rules.manifestVersion,
+        `${name} manifest has version ${JSON.stringify(
+          manifest.version
+        )}, expected version ${MANIFEST_VERSION}`
+      )
+    )
+  );
+  // Handlers of other versions may lack properties or have them in another shape
+  if (unreadable.length > 0) return unreadable;
+
+  return baseline.services.flatMap((before) => {
+    const after = current.services.find((s) => s.key == before.key);
+    if (!after) {
+      return [
+        createDiagnostic(
+          rules.serviceRemoved,
+          `Service "${before.name}" was removed`,
+          getFileLocation(path.resolve(root, before.modulePath))
+        ),
+      ];
+    }
+    return diffService(before, after, root);
+  });
+}
+
+async function readManifest(file: string): Promise<ContractManifest> {
+  return JSON.parse(await fs.readFile(file, "utf8"));
+}
+
+async function git(root: string, ...args: string[]) {
+  const { stdout } = await exec("git", args, {
+    cwd: root,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+/** Options of the config holding paths, moved into the worktree along with the root */
+const PATH_OPTIONS = [
+  "tsconfig",
+  "clientService",
+  "patternsFile",
+  "proxiesDir",
+  "manifestFile",
+  "validatorsFile",
+  "asyncApiFile",
+  "eventsFile",
+] as const;
+
+/** Extracts the contracts at a git ref, from its committed manifest if there is one, or else from a temporary worktree */
+async function manifestAtRef(
+  config: GeneratorConfig,
+  ref: string
+): Promise<ContractManifest> {
+  if (config.manifestFile) {
+    // `./` resolves the path against the workspace root, which may be a subdirectory of the repository
+    const relative = path.relative(config.root, config.manifestFile);
+    const object = `${ref}:./${relative}`;
+    const isCommitted = await git(config.root, "cat-file", "-e", object).then(
+      () => true,
+      () => false
+    );
+    if (isCommitted) {
+      const manifest: ContractManifest = JSON.parse(
+        await git(config.root, "show", object)
+      );
+      // Manifests committed by other versions of the generator are extracted again
+      if (manifest.version === MANIFEST_VERSION) return manifest;
+    }
+  }
+
+  // Workspace root within the repository, e.g. `packages/api/`
+  const [toplevel, prefix] = (
+    await git(config.root, "rev-parse", "--show-toplevel", "--show-prefix")
+  ).split("\n");
+  const worktree = await fs.mkdtemp(path.join(os.tmpdir(), "contracts-"));
+  await git(config.root, "worktree", "add", "--detach", worktree, ref);
+  try {
+    const root = path.join(worktree, prefix);
+    // Dependencies aren't committed: link those of the workspace, and those hoisted to the top of the repository
+    for (const dir of new Set([prefix, ""])) {
+      const nodeModules = path.join(toplevel, dir, "node_modules");
+      if (!(await fs.stat(nodeModules).catch(() => undefined))) continue;
+      await fs
+        .symlink(nodeModules, path.join(worktree, dir, "node_modules"))
+        .catch(() => undefined);
+    }
+    // Same config, with paths moved into the worktree
+    const moved: GeneratorConfig = { ...config, root };
+    for (const option of PATH_OPTIONS) {
+      const p = config[option];
+      if (p) moved[option] = path.join(root, path.relative(config.root, p));
+    }
+    return buildManifest(await extractServices(moved), root);
+  } finally {
+    await git(config.root, "worktree", "remove", "--force", worktree);
+  }
+}
+
+/** Loads the baseline contracts from a manifest file or, failing that, from a git ref */
+export async function loadBaseline(config: GeneratorConfig, against: string) {
+  const file = path.resolve(config.root, against);
+  const isFile = await fs.stat(file).then(
+    (stat) => stat.isFile(),
+    () => false
+  );
+  return isFile ? readManifest(file) : manifestAtRef(config, against);
+}
+
+/** Loads the current contracts from a manifest file if given, or else from the workspace */
+export async function loadCurrent(
+  config: GeneratorConfig,
+  manifestFile?: string
+) {
+  if (manifestFile)
+    return readManifest(path.resolve(config.root, manifestFile));
+  return buildManifest(await extractServices(config), config.root);
+}
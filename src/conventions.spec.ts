@@ -0,0 +1,112 @@
+import * as path from "node:path";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import { UserConfig } from "./config";
+import { ClientMethodSource } from "./conventions";
+import { extractServices, generateClients } from "./generator";
+
+const CONTROLLER = `
+import { Controller } from "@nestjs/common";
+import { EventPattern, MessagePattern, Payload } from "@nestjs/microservices";
+import { Observable, of } from "rxjs";
+
+@Controller()
+export class AccountsController {
+  @MessagePattern("accounts.get")
+  getAccount(@Payload() id: number): string {
+    return "";
+  }
+
+  @MessagePattern("accounts.watch")
+  watchAccounts(): Observable<string> {
+    return of("");
+  }
+
+  @EventPattern("user-accounts:account-closed")
+  onAccountClosed(@Payload() id: number) {}
+}
+`;
+
+/** Members of the interface in a generated file, e.g. `getUser` of `getUser(payload: number): Promise<User>;` */
+function getMembers(file: string, name: string) {
+  const body = file.match(new RegExp(`interface ${name} \\{([^}]*)\\}`))?.[1];
+  return [...(body ?? "").matchAll(/^\s*(\w+)[(:]/gm)].map((m) => m[1]);
+}
+
+/** Methods of the service in the pattern map */
+function getPatternMapKeys(file: string, serviceKey: string) {
+  const body = file.match(new RegExp(`${serviceKey}: \\{([^}]*)\\}`))?.[1];
+  return [...(body ?? "").matchAll(/^\s*(\w+): \[/gm)].map((m) => m[1]);
+}
+
+describe.each<[string, UserConfig["conventions"], string[]]>([
+  [
+    "emit prefix, return type streaming and event pattern",
+    {
+      emitPrefix: "publish",
+      streaming: "returnType",
+      eventPattern: "^{service}:(?<name>[\\w-]+)$",
+    },
+    ["getAccount", "watchAccounts", "publishAccountClosed"],
+  ],
+  [
+    "client method names",
+    {
+      streaming: "returnType",
+      eventPattern: "^{service}:(?<name>[\\w-]+)$",
+      clientMethodName: (source: ClientMethodSource) =>
+        source.kind == "message"
+          ? `accounts_${source.handlerName}`
+          : `on_${source.eventName}`,
+    },
+    ["accounts_getAccount", "accounts_watchAccounts", "on_accountClosed"],
+  ],
+])("non-default conventions: %s", (_, conventions, clientMethods) => {
+  let root: string;
+  let files: Map<string, string>;
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/user-accounts/src/user-accounts.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { AccountsController } from "./accounts.controller";
+        @Module({ controllers: [AccountsController] })
+        export class UserAccountsModule {}
+      `,
+      "apps/user-accounts/src/accounts.controller.ts": CONTROLLER,
+    });
+    const config = { root, mocks: true, conventions };
+    files = await generateClients(await extractServices(config), config);
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  const proxy = () =>
+    files.get(
+      path.join(root, "apps/user-accounts/src/user-accounts.proxy.generated.ts")
+    )!;
+  const patterns = () =>
+    files.get(path.join(root, "libs/proxies/src/generated/patterns.ts"))!;
+
+  it("names the methods of the pattern map by the conventions", () => {
+    expect(getPatternMapKeys(patterns(), "userAccounts")).toEqual(
+      clientMethods
+    );
+  });
+
+  it("declares the proxy methods and replies with the keys of the pattern map", () => {
+    const keys = getPatternMapKeys(patterns(), "userAccounts");
+    expect(getMembers(proxy(), "UserAccountsProxy")).toEqual(keys);
+    expect(getMembers(proxy(), "UserAccountsProxyReplies")).toEqual(
+      keys.slice(0, 2)
+    );
+  });
+
+  it("returns an Observable from handlers declared to return one", () => {
+    expect(proxy()).toContain(
+      `${clientMethods[1]}(options?: Options): Observable<string>;`
+    );
+    expect(proxy()).toContain(
+      `${clientMethods[0]}(payload: number, options?: Options): Promise<string>;`
+    );
+  });
+});
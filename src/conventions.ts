@@ -0,0 +1,100 @@
+import * as path from "node:path";
+import * as R from "remeda";
+import { MethodDeclaration } from "ts-morph";
+
+/** Handler or declared event a client method is generated for */
+export interface ClientMethodSource {
+  kind: "message" | "event";
+  /** Name of the handler, undefined for declared events */
+  handlerName?: string;
+  /** Class of the handler, undefined for declared events */
+  className?: string;
+  /** Event name matched by `eventPattern`, in camel case */
+  eventName?: string;
+  pattern: unknown;
+}
+
+export type StreamingConvention = "suffix" | "returnType";
+
+export const STREAMING_CONVENTIONS: StreamingConvention[] = [
+  "suffix",
+  "returnType",
+];
+
+export interface Conventions {
+  /** Prefix of the client methods of events, followed by the event name in PascalCase. Message handler names must not start with it */
+  emitPrefix: string;
+  /** How streaming message handlers are recognized: by a `$` at the end of their name, or by their declared `Observable` return type */
+  streaming: StreamingConvention;
+  /** Regular expression event patterns must match. `{service}` stands for the service name in kebab case and the `name` group for the event name, the whole pattern is the event name without it */
+  eventPattern: string;
+  /** Name of the client method of a handler or declared event. Defaults to the handler name for messages, and to `emitPrefix` followed by the event name for events */
+  clientMethodName?: (source: ClientMethodSource) => string;
+  /** Name of a service in PascalCase from the path of its main module. Defaults to the file name, e.g. `UserAccounts` for `user-accounts.module.ts` */
+  serviceName?: (modulePath: string) => string;
+}
+
+export const defaultConventions: Conventions = {
+  emitPrefix: "emit",
+  streaming: "suffix",
+  eventPattern: "^{service}\\.(?<name>[\\w-]+)$",
+};
+
+export function getServiceName(
+  modulePath: string,
+  conventions: Conventions = defaultConventions
+) {
+  if (conventions.serviceName) return conventions.serviceName(modulePath);
+  const basename = path.basename(modulePath, ".module.ts");
+  return R.capitalize(R.toCamelCase(basename));
+}
+
+/** Matches the event patterns of a service */
+export function getEventPatternRe(
+  serviceName: string,
+  conventions: Conventions = defaultConventions
+) {
+  return new RegExp(
+    conventions.eventPattern.replace(/\{service\}/g, R.toKebabCase(serviceName))
+  );
+}
+
+/** Event name of a pattern of the service in camel case, undefined if it isn't an event pattern of the service */
+export function getEventName(
+  serviceName: string,
+  pattern: unknown,
+  conventions: Conventions = defaultConventions
+) {
+  if (typeof pattern != "string") return;
+  const match = pattern.match(getEventPatternRe(serviceName, conventions));
+  return match ? R.toCamelCase(match.groups?.name ?? match[0]) : undefined;
+}
+
+export function getClientMethodName(
+  source: ClientMethodSource,
+  conventions: Conventions = defaultConventions
+) {
+  if (conventions.clientMethodName) {
+    return conventions.clientMethodName(source);
+  }
+  if (source.kind == "message") return source.handlerName;
+
+  const { emitPrefix } = conventions;
+  return emitPrefix
+    ? `${emitPrefix}${R.capitalize(source.eventName)}`
+    : source.eventName;
+}
+
+/** Whether a message handler may reply with more than one value, so its client method returns an Observable */
+export function isStreamingHandler(
+  method: MethodDeclaration,
+  conventions: Conventions = defaultConventions
+) {
+  if (conventions.streaming == "suffix") return method.getName().endsWith("$");
+
+  const signatures = method.getOverloads();
+  return (signatures.length > 0 ? signatures : [method]).some(
+    (signature) =>
+      signature.getReturnType().getSymbol()?.getName() === "Observable"
+  );
+}
@@ -0,0 +1,88 @@
+import * as path from "node:path";
+import {
+  createDiagnostic,
+  formatDiagnostics,
+  getFileLocation,
+  hasErrors,
+  rules,
+} from "./diagnostics";
+
+const root = path.resolve("/workspace");
+
+const location = (file: string, line: number) => ({
+  file: path.join(root, file),
+  start: { line, column: 3 },
+  end: { line, column: 10 },
+});
+
+const duplicate = createDiagnostic(
+  rules.duplicateMethodName,
+  `Duplicate client method "getUser"`,
+  location("apps/users/src/users.controller.ts", 12),
+  [location("apps/users/src/admin.controller.ts", 4)]
+);
+const undecorated = createDiagnostic(
+  rules.undecoratedParameter,
+  `Parameter "id" of UsersController.getUser has no decorator`,
+  getFileLocation(path.join(root, "apps/users/src/users.controller.ts"))
+);
+
+describe("formatDiagnostics", () => {
+  it("formats diagnostics for people, with paths relative to the root", () => {
+    expect(formatDiagnostics([duplicate], "human", root)).toBe(
+      [
+        `apps/users/src/users.controller.ts:12:3 - error CG005: Duplicate client method "getUser"`,
+        `    see apps/users/src/admin.controller.ts:4:3`,
+        `    hint: ${rules.duplicateMethodName.hint}`,
+      ].join("\n")
+    );
+  });
+
+  it("formats diagnostics as JSON", () => {
+    expect(JSON.parse(formatDiagnostics([duplicate], "json", root))).toEqual([
+      {
+        code: "CG005",
+        severity: "error",
+        message: `Duplicate client method "getUser"`,
+        hint: rules.duplicateMethodName.hint,
+        location: {
+          ...location("apps/users/src/users.controller.ts", 12),
+          file: "apps/users/src/users.controller.ts",
+        },
+        related: [
+          {
+            ...location("apps/users/src/admin.controller.ts", 4),
+            file: "apps/users/src/admin.controller.ts",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("formats diagnostics as a SARIF log referencing the rules", () => {
+    const sarif = JSON.parse(
+      formatDiagnostics([duplicate, undecorated], "sarif", root)
+    );
+    const [run] = sarif.runs;
+    const [result, warning] = run.results;
+
+    expect(sarif.version).toBe("2.1.0");
+    expect(run.tool.driver.rules[result.ruleIndex].id).toBe("CG005");
+    expect(result.locations[0].physicalLocation).toEqual({
+      artifactLocation: {
+        uri: "apps/users/src/users.controller.ts",
+        uriBaseId: "%SRCROOT%",
+      },
+      region: { startLine: 12, startColumn: 3, endLine: 12, endColumn: 10 },
+    });
+    expect(result.relatedLocations).toHaveLength(1);
+    expect(warning).toMatchObject({ ruleId: "CG007", level: "warning" });
+  });
+});
+
+describe("hasErrors", () => {
+  it("ignores warnings", () => {
+    expect(hasErrors([undecorated])).toBe(false);
+    expect(hasErrors([undecorated, duplicate])).toBe(true);
+  });
+});
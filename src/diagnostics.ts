@@ -0,0 +1,347 @@
+import * as path from "node:path";
+import * as R from "remeda";
+import { Node } from "ts-morph";
+
+export type Severity = "error" | "warning";
+
+export type DiagnosticFormat = "human" | "json" | "sarif";
+
+export const DIAGNOSTIC_FORMATS: DiagnosticFormat[] = [
+  "human",
+  "json",
+  "sarif",
+];
+
+export interface Rule {
+  code: string;
+  name: string;
+  severity: Severity;
+  description: string;
+  hint: string;
+}
+
+export interface Position {
+  line: number;
+  column: number;
+}
+
+export interface DiagnosticLocation {
+  file: string;
+  start: Position;
+  end: Position;
+}
+
+export interface Diagnostic {
+  code: string;
+  severity: Severity;
+  message: string;
+  hint: string;
+  location?: DiagnosticLocation;
+  /** Other places involved, e.g. the other declarations of a duplicate name */
+  related?: DiagnosticLocation[];
+}
+
+export const rules = {
+  eventPatternNotString: {
+    code: "CG001",
+    name: "event-pattern-not-string",
+    severity: "error",
+    description: "Pattern expression of an event handler is not a string",
+    hint: "Use a string literal or a constant declared with 'as const' as the event pattern",
+  },
+  messageHandlerEmitPrefix: {
+    code: "CG002",
+    name: "message-handler-emit-prefix",
+    severity: "error",
+    description: "Message handler name starts with the emit prefix",
+    hint: 'Rename the handler, names starting with the emit prefix (by default "emit") are reserved for event methods of the client',
+  },
+  unextractablePattern: {
+    code: "CG003",
+    name: "unextractable-pattern",
+    severity: "error",
+    description: "Pattern value can't be extracted",
+    hint: "Use literals, constants, enum members, template literals or calls of helpers returning a single expression, or give the pattern a literal type",
+  },
+  eventPatternFormat: {
+    code: "CG004",
+    name: "event-pattern-format",
+    severity: "error",
+    description: "Event pattern is not in the expected format",
+    hint: 'Use the configured event pattern, by default "<service_name_in_kebabcase>.<event_name>"',
+  },
+  duplicateMethodName: {
+    code: "CG005",
+    name: "duplicate-method-name",
+    severity: "error",
+    description: "Client method name is not unique in its service",
+    hint: "Rename the handlers or events, their names are used as method names of the client",
+  },
+  duplicateServiceName: {
+    code: "CG006",
+    name: "duplicate-service-name",
+    severity: "error",
+    description: "Service name is not unique in the workspace",
+    hint: "Rename the main modules, their names are used as service names of the client",
+  },
+  undecoratedParameter: {
+    code: "CG007",
+    name: "undecorated-parameter",
+    severity: "warning",
+    description:
+      "Handler parameter has no decorator while other parameters have one",
+    hint: "Decorate it with @Payload(), @Ctx() or a configured payload decorator, Nest only passes arguments to decorated parameters",
+  },
+  eventPayloadConflict: {
+    code: "CG008",
+    name: "event-payload-conflict",
+    severity: "error",
+    description: "Handlers of the same event expect incompatible payloads",
+    hint: "Align the payload types, no payload can satisfy both and the emit method of the event can't be called",
+  },
+  transportPattern: {
+    code: "CG009",
+    name: "transport-pattern",
+    severity: "error",
+    description: "Handler isn't supported by the transport of its service",
+    hint: "Use @GrpcMethod handlers on gRPC services and @MessagePattern or @EventPattern handlers on the others. Kafka patterns are topic names, made of letters, digits, '.', '_' and '-'. The standalone client only speaks the TCP and Redis transports",
+  },
+  contractVersion: {
+    code: "CG010",
+    name: "contract-version",
+    severity: "error",
+    description: "Contract version of a handler is invalid",
+    hint: "Pass a positive integer to @ContractVersion on message handlers or their controller, and give each version its own pattern. Events aren't versioned, publish a new event instead",
+  },
+  eventsFile: {
+    code: "CG011",
+    name: "events-file",
+    severity: "error",
+    description:
+      "Events file doesn't exist or doesn't export an Events interface",
+    hint: "Export an interface named Events from the configured events file, mapping event patterns to their payload types",
+  },
+  manifestVersion: {
+    code: "CG100",
+    name: "manifest-version",
+    severity: "error",
+    description:
+      "Manifest was written by a version of the generator this one can't read",
+    hint: "Regenerate the manifest with this version of the generator, or diff against a git ref to extract its contracts from the sources",
+  },
+  serviceRemoved: {
+    code: "CG101",
+    name: "service-removed",
+    severity: "error",
+    description: "Service of the baseline contracts was removed",
+    hint: "Keep the service until no caller depends on it",
+  },
+  handlerRemoved: {
+    code: "CG102",
+    name: "handler-removed",
+    severity: "error",
+    description: "Handler of the baseline contracts was removed",
+    hint: "Keep the handler until no caller depends on it",
+  },
+  patternChanged: {
+    code: "CG103",
+    name: "pattern-changed",
+    severity: "error",
+    description: "Pattern of a message handler changed",
+    hint: "Keep a handler for the old pattern until all callers use the new one",
+  },
+  eventRenamed: {
+    code: "CG104",
+    name: "event-renamed",
+    severity: "error",
+    description: "Pattern of an event handler changed",
+    hint: "Keep handling the old event until all publishers emit the new one",
+  },
+  payloadIncompatible: {
+    code: "CG105",
+    name: "payload-incompatible",
+    severity: "error",
+    description: "Handler no longer accepts payloads that were valid before",
+    hint: "Make new properties optional and keep accepting the old types and values",
+  },
+  returnTypeChanged: {
+    code: "CG106",
+    name: "return-type-changed",
+    severity: "error",
+    description: "Handler may reply with values callers don't expect",
+    hint: "Keep returning the properties, types and values of the previous reply",
+  },
+  becameStreaming: {
+    code: "CG107",
+    name: "became-streaming",
+    severity: "error",
+    description: "Message handler became a streaming handler",
+    hint: "Add a new streaming handler instead and keep the old one",
+  },
+  unusedHandler: {
+    code: "CG201",
+    name: "unused-handler",
+    severity: "warning",
+    description: "Handler is never called through its proxy",
+    hint: "Remove the handler if nothing else sends its pattern, e.g. clients outside of the workspace",
+  },
+  missingProxyMethod: {
+    code: "CG202",
+    name: "missing-proxy-method",
+    severity: "error",
+    description: "Called proxy method has no handler",
+    hint: "Regenerate the proxies and update the caller, the handler was removed or renamed",
+  },
+  serviceCycle: {
+    code: "CG203",
+    name: "service-cycle",
+    severity: "warning",
+    description: "Services call each other in a cycle",
+    hint: "Break the cycle, e.g. with an event instead of a message, so that the services can be deployed and started independently",
+  },
+} satisfies Record<string, Rule>;
+
+/** Location of a whole file, for diagnostics not tied to a node */
+export function getFileLocation(file: string): DiagnosticLocation {
+  const start = { line: 1, column: 1 };
+  return { file, start, end: start };
+}
+
+export function getLocation(at: Node | DiagnosticLocation): DiagnosticLocation {
+  if (!Node.isNode(at)) return at;
+  const sourceFile = at.getSourceFile();
+  return {
+    file: sourceFile.getFilePath(),
+    start: sourceFile.getLineAndColumnAtPos(at.getStart()),
+    end: sourceFile.getLineAndColumnAtPos(at.getEnd()),
+  };
+}
+
+export function createDiagnostic(
+  rule: Rule,
+  message: string,
+  at?: Node | DiagnosticLocation,
+  related?: (Node | DiagnosticLocation)[]
+): Diagnostic {
+  return {
+    code: rule.code,
+    severity: rule.severity,
+    message,
+    hint: rule.hint,
+    location: at && getLocation(at),
+    related: related?.map(getLocation),
+  };
+}
+
+export function hasErrors(diagnostics: Diagnostic[]) {
+  return diagnostics.some((d) => d.severity === "error");
+}
+
+function formatLocation(root: string, location: DiagnosticLocation) {
+  const { file, start } = location;
+  return `${path.relative(root, file)}:${start.line}:${start.column}`;
+}
+
+function formatHuman(root: string, diagnostics: Diagnostic[]) {
+  return diagnostics
+    .map((d) => {
+      const where = d.location ? `${formatLocation(root, d.location)} - ` : "";
+      const related = (d.related ?? []).map(
+        (location) => `\n    see ${formatLocation(root, location)}`
+      );
+      return `${where}${d.severity} ${d.code}: ${d.message}${related.join(
+        ""
+      )}\n    hint: ${d.hint}`;
+    })
+    .join("\n\n");
+}
+
+function formatJson(root: string, diagnostics: Diagnostic[]) {
+  const relative = (location: DiagnosticLocation) => ({
+    ...location,
+    file: path.relative(root, location.file),
+  });
+
+  return JSON.stringify(
+    diagnostics.map((d) => ({
+      ...d,
+      location: d.location && relative(d.location),
+      related: d.related?.map(relative),
+    })),
+    null,
+    2
+  );
+}
+
+function toSarifLocation(root: string, location: DiagnosticLocation) {
+  return {
+    physicalLocation: {
+      artifactLocation: {
+        uri: path.relative(root, location.file).split(path.sep).join("/"),
+        uriBaseId: "%SRCROOT%",
+      },
+      region: {
+        startLine: location.start.line,
+        startColumn: location.start.column,
+        endLine: location.end.line,
+        endColumn: location.end.column,
+      },
+    },
+  };
+}
+
+function formatSarif(root: string, diagnostics: Diagnostic[]) {
+  const ruleList = R.values(rules) as Rule[];
+
+  return JSON.stringify(
+    {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: "nestjs-microservices-client-generator",
+              rules: ruleList.map((rule) => ({
+                id: rule.code,
+                name: rule.name,
+                shortDescription: { text: rule.description },
+                help: { text: rule.hint },
+                defaultConfiguration: { level: rule.severity },
+              })),
+            },
+          },
+          results: diagnostics.map((d) => ({
+            ruleId: d.code,
+            ruleIndex: ruleList.findIndex((rule) => rule.code === d.code),
+            level: d.severity,
+            message: { text: `${d.message}. ${d.hint}` },
+            locations: d.location ? [toSarifLocation(root, d.location)] : [],
+            relatedLocations: d.related?.map((location, id) => ({
+              id,
+              ...toSarifLocation(root, location),
+            })),
+          })),
+        },
+      ],
+    },
+    null,
+    2
+  );
+}
+
+/** Formats diagnostics for output. File paths are made relative to `root` */
+export function formatDiagnostics(
+  diagnostics: Diagnostic[],
+  format: DiagnosticFormat,
+  root: string
+) {
+  switch (format) {
+    case "json":
+      return formatJson(root, diagnostics);
+    case "sarif":
+      return formatSarif(root, diagnostics);
+    default:
+      return formatHuman(root, diagnostics);
+  }
+}
@@ -0,0 +1,131 @@
+import { Node, Project } from "ts-morph";
+import { EvaluationError, evaluatePattern } from "./evaluate";
+
+const CONSTANTS = `
+export const PREFIX = "Users";
+export const VERSION = 2;
+
+export enum Command {
+  Get = "get",
+  Delete = "delete",
+}
+
+export class Patterns {
+  static readonly CREATED = \`\${PREFIX.toLowerCase()}.user-created\`;
+}
+
+export function topic(service: string, name: string, version = VERSION) {
+  return \`\${service}.v\${version}.\${name}\`;
+}
+
+export const command = (cmd: Command, ...path: string[]) => ({
+  cmd,
+  path: path.join("/"),
+});
+
+export declare const typed: "users.typed";
+
+export function sideEffect() {
+  console.log("called");
+  return "users.side-effect";
+}
+`;
+
+/** Evaluates the initializers of `PATTERNS`, an array of expressions in a file importing the constants */
+function evaluateAll(expressions: string[]) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  project.createSourceFile("/constants.ts", CONSTANTS);
+  const file = project.createSourceFile(
+    "/patterns.ts",
+    `import * as constants from "./constants";
+    import { Command, PREFIX, Patterns, command, sideEffect, topic, typed } from "./constants";
+    const PATTERNS = [${expressions.join(",\n")}];`
+  );
+  const array = file
+    .getVariableDeclarationOrThrow("PATTERNS")
+    .getInitializerOrThrow();
+  if (!Node.isArrayLiteralExpression(array)) throw new Error("Not an array");
+  return array.getElements().map((element) => {
+    try {
+      return evaluatePattern(element);
+    } catch (error) {
+      if (error instanceof EvaluationError) return error;
+      throw error;
+    }
+  });
+}
+
+describe("evaluatePattern", () => {
+  it("evaluates imported constants, enums and static properties", () => {
+    expect(
+      evaluateAll([
+        "PREFIX",
+        "constants.VERSION",
+        "Command.Get",
+        "Patterns.CREATED",
+        "typed",
+      ])
+    ).toEqual(["Users", 2, "get", "users.user-created", "users.typed"]);
+  });
+
+  it("evaluates template literals, operators and object patterns", () => {
+    expect(
+      evaluateAll([
+        "`${PREFIX}.${Command.Delete}`",
+        `"users." + (constants.VERSION === 2 ? "next" : "legacy")`,
+        "{ cmd: Command.Get, [PREFIX]: true, ...{ version: constants.VERSION } }",
+      ])
+    ).toEqual([
+      "Users.delete",
+      "users.next",
+      { cmd: "get", Users: true, version: 2 },
+    ]);
+  });
+
+  it("evaluates helpers returning a single expression, with default and rest parameters", () => {
+    expect(
+      evaluateAll([
+        `topic("users", "get")`,
+        `command(Command.Delete, "users", "1")`,
+      ])
+    ).toEqual(["users.v2.get", { cmd: "delete", path: "users/1" }]);
+  });
+
+  it("evaluates numeric and boolean patterns", () => {
+    expect(evaluateAll(["42", "constants.VERSION * 10", "true"])).toEqual([
+      42,
+      20,
+      true,
+    ]);
+  });
+
+  it("fails on null, undefined and empty patterns", () => {
+    const errors = evaluateAll(["null", "undefined", `""`, "[]", "{}"]);
+    expect(errors.map((error) => (error as Error).message)).toEqual([
+      "Pattern is null",
+      "Pattern is undefined",
+      "Pattern is empty",
+      "Pattern is empty",
+      "Pattern is empty",
+    ]);
+    errors.forEach((error) => expect(error).toBeInstanceOf(EvaluationError));
+  });
+
+  it("fails on helpers with side effects and values that aren't JSON", () => {
+    const [sideEffect, nan, fn] = evaluateAll([
+      "sideEffect()",
+      "0 / 0",
+      "topic",
+    ]);
+    expect(sideEffect).toEqual(
+      new EvaluationError(
+        "Only functions returning a single expression can be evaluated",
+        expect.anything()
+      )
+    );
+    expect(nan).toEqual(
+      new EvaluationError("Pattern contains NaN", expect.anything())
+    );
+    expect(fn).toBeInstanceOf(EvaluationError);
+  });
+});
@@ -0,0 +1,399 @@
+import * as R from "remeda";
+import {
+  CallExpression,
+  Node,
+  SyntaxKind,
+  Symbol as TsSymbol,
+  Type,
+  VariableDeclarationKind,
+  ts,
+} from "ts-morph";
+
+/** Nesting of expressions and helper calls after which evaluation gives up, e.g. on recursive helpers */
+const MAX_DEPTH = 50;
+
+/** Methods of strings and arrays that helpers may call, they are pure */
+const PURE_METHODS: Record<string, string[]> = {
+  string: [
+    "concat",
+    "padEnd",
+    "padStart",
+    "repeat",
+    "slice",
+    "toLowerCase",
+    "toUpperCase",
+    "trim",
+  ],
+  array: ["concat", "join", "slice"],
+};
+
+export class EvaluationError extends Error {
+  constructor(message: string, readonly node: Node) {
+    super(message);
+    this.name = "EvaluationError";
+  }
+}
+
+/** Values of the parameters of the helper being called */
+type Scope = Map<Node, unknown>;
+
+/** Value of a literal type, a fixed tuple or an object type of them, e.g. of a `declare const` or a parameter typed with a template literal type */
+export function valueFromType(type: Type, node: Node): unknown {
+  const value = type.getLiteralValue();
+  if (R.isDefined(value)) return value;
+  if (type.isBooleanLiteral()) return type.getText() === "true";
+  if (type.isNull()) return null;
+
+  if (
+    type.isTuple() &&
+    !(type.compilerType.combinedFlags & ts.ElementFlags.Variable)
+  ) {
+    return type.getTupleElements().map((t) => valueFromType(t, node));
+  }
+
+  if (!type.isObject() || type.getCallSignatures().length > 0) {
+    throw new EvaluationError(
+      `Type "${type.getText(node)}" has more than one possible value`,
+      node
+    );
+  }
+
+  return R.pullObject(
+    type.getProperties(),
+    (prop) => prop.getName(),
+    (prop) => valueFromType(prop.getTypeAtLocation(node), node)
+  );
+}
+
+/** Declaration of the value a symbol refers to, following imports */
+function getDeclaration(symbol: TsSymbol | undefined) {
+  const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+  return target?.getValueDeclaration() ?? target?.getDeclarations()[0];
+}
+
+/** Value of a `const` variable, a `static readonly` property or an enum member, undefined if the declaration is none of them */
+function evaluateDeclaration(
+  declaration: Node | undefined,
+  depth: number
+): { value: unknown } | undefined {
+  const isConstant =
+    (Node.isVariableDeclaration(declaration) &&
+      declaration.getVariableStatement()?.getDeclarationKind() ==
+        VariableDeclarationKind.Const) ||
+    (Node.isPropertyDeclaration(declaration) &&
+      declaration.isStatic() &&
+      declaration.isReadonly());
+  if (isConstant && declaration.hasInitializer()) {
+    // Module level constants don't see the parameters of the helper being called
+    return {
+      value: evaluate(
+        declaration.getInitializerOrThrow(),
+        new Map(),
+        depth + 1
+      ),
+    };
+  }
+  if (Node.isEnumMember(declaration)) return { value: declaration.getValue() };
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return R.isPlainObject(value) || Array.isArray(value);
+}
+
+function applyBinary(operator: SyntaxKind, left: any, right: any) {
+  switch (operator) {
+    case SyntaxKind.PlusToken:
+      return left + right;
+    case SyntaxKind.MinusToken:
+      return left - right;
+    case SyntaxKind.AsteriskToken:
+      return left * right;
+    case SyntaxKind.SlashToken:
+      return left / right;
+    case SyntaxKind.PercentToken:
+      return left % right;
+    case SyntaxKind.QuestionQuestionToken:
+      return left ?? right;
+    case SyntaxKind.BarBarToken:
+      return left || right;
+    case SyntaxKind.AmpersandAmpersandToken:
+      return left && right;
+    case SyntaxKind.EqualsEqualsEqualsToken:
+      return left === right;
+    case SyntaxKind.ExclamationEqualsEqualsToken:
+      return left !== right;
+  }
+}
+
+/**
+ * Statically evaluates an expression of constant values: literals, template literals, object and array literals with spreads, `const` variables and enum members across files, and calls of helper functions returning a single expression.
+ * Other expressions are evaluated from their type, if it has a single possible value.
+ */
+export function evaluate(
+  node: Node,
+  scope: Scope = new Map(),
+  depth = 0
+): unknown {
+  if (depth > MAX_DEPTH) {
+    throw new EvaluationError(`Expression is nested too deeply`, node);
+  }
+  const next = (n: Node, s = scope) => evaluate(n, s, depth + 1);
+  // Value of a parameter of the helper being called, a constant or an enum member, or else of the type of the reference
+  const evaluateReference = (
+    declaration: Node | undefined,
+    reference: Node
+  ) => {
+    if (declaration && scope.has(declaration)) return scope.get(declaration);
+    const evaluated = evaluateDeclaration(declaration, depth);
+    return evaluated
+      ? evaluated.value
+      : valueFromType(reference.getType(), reference);
+  };
+
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node) ||
+    Node.isNonNullExpression(node) ||
+    Node.isTypeAssertion(node)
+  ) {
+    return next(node.getExpression());
+  }
+
+  if (
+    Node.isStringLiteral(node) ||
+    Node.isNoSubstitutionTemplateLiteral(node) ||
+    Node.isNumericLiteral(node)
+  ) {
+    return node.getLiteralValue();
+  }
+  if (Node.isTrueLiteral(node) || Node.isFalseLiteral(node)) {
+    return node.getLiteralValue();
+  }
+  if (Node.isNullLiteral(node)) return null;
+
+  if (Node.isTemplateExpression(node)) {
+    return node
+      .getTemplateSpans()
+      .reduce(
+        (text, span) =>
+          `${text}${next(span.getExpression())}${span
+            .getLiteral()
+            .getLiteralText()}`,
+        node.getHead().getLiteralText()
+      );
+  }
+
+  if (Node.isPrefixUnaryExpression(node)) {
+    const operand: any = next(node.getOperand());
+    switch (node.getOperatorToken()) {
+      case SyntaxKind.MinusToken:
+        return -operand;
+      case SyntaxKind.PlusToken:
+        return +operand;
+      case SyntaxKind.ExclamationToken:
+        return !operand;
+    }
+  }
+
+  if (Node.isBinaryExpression(node)) {
+    const operator = node.getOperatorToken().getKind();
+    const value = applyBinary(
+      operator,
+      next(node.getLeft()),
+      next(node.getRight())
+    );
+    if (value !== undefined || operator == SyntaxKind.QuestionQuestionToken) {
+      return value;
+    }
+  }
+
+  if (Node.isConditionalExpression(node)) {
+    return next(node.getCondition())
+      ? next(node.getWhenTrue())
+      : next(node.getWhenFalse());
+  }
+
+  if (Node.isObjectLiteralExpression(node)) {
+    const object: Record<string, unknown> = {};
+    for (const prop of node.getProperties()) {
+      if (Node.isPropertyAssignment(prop)) {
+        const name = prop.getNameNode();
+        const key = Node.isComputedPropertyName(name)
+          ? next(name.getExpression())
+          : Node.isStringLiteral(name) || Node.isNumericLiteral(name)
+          ? name.getLiteralValue()
+          : name.getText();
+        object[String(key)] = next(prop.getInitializerOrThrow());
+      } else if (Node.isShorthandPropertyAssignment(prop)) {
+        object[prop.getName()] = evaluateReference(
+          getDeclaration(prop.getValueSymbol()),
+          prop
+        );
+      } else if (Node.isSpreadAssignment(prop)) {
+        const spread = next(prop.getExpression());
+        if (!isJsonObject(spread)) {
+          throw new EvaluationError(`Spread value is not an object`, prop);
+        }
+        Object.assign(object, spread);
+      } else {
+        throw new EvaluationError(
+          `Methods and accessors can't be evaluated`,
+          prop
+        );
+      }
+    }
+    return object;
+  }
+
+  if (Node.isArrayLiteralExpression(node)) {
+    return node.getElements().flatMap((element) => {
+      if (!Node.isSpreadElement(element)) return [next(element)];
+      const spread = next(element.getExpression());
+      if (!Array.isArray(spread)) {
+        throw new EvaluationError(`Spread value is not an array`, element);
+      }
+      return spread;
+    });
+  }
+
+  if (Node.isIdentifier(node)) {
+    if (node.getText() == "undefined") return undefined;
+    return evaluateReference(getDeclaration(node.getSymbol()), node);
+  }
+
+  if (
+    Node.isPropertyAccessExpression(node) ||
+    Node.isElementAccessExpression(node)
+  ) {
+    // Enum members, static properties and constants of namespace imports
+    const evaluated = evaluateDeclaration(
+      getDeclaration(node.getSymbol()),
+      depth
+    );
+    if (evaluated) return evaluated.value;
+
+    const object = next(node.getExpression());
+    const key = Node.isPropertyAccessExpression(node)
+      ? node.getName()
+      : String(next(node.getArgumentExpressionOrThrow()));
+    if (
+      isJsonObject(object) &&
+      Object.prototype.hasOwnProperty.call(object, key)
+    ) {
+      return object[key];
+    }
+    throw new EvaluationError(`Property "${key}" is not defined`, node);
+  }
+
+  if (Node.isCallExpression(node)) {
+    return evaluateCall(node, scope, depth);
+  }
+
+  return valueFromType(node.getType(), node);
+}
+
+function evaluateCall(node: CallExpression, scope: Scope, depth: number) {
+  const next = (n: Node, s = scope) => evaluate(n, s, depth + 1);
+  const callee = node.getExpression();
+  const args = node.getArguments().map((arg) => {
+    if (Node.isSpreadElement(arg)) {
+      throw new EvaluationError(`Spread arguments can't be evaluated`, arg);
+    }
+    return next(arg);
+  });
+
+  let helper = getDeclaration(callee.getSymbol());
+  if (Node.isVariableDeclaration(helper)) {
+    let initializer = helper.getInitializer();
+    while (
+      Node.isParenthesizedExpression(initializer) ||
+      Node.isAsExpression(initializer)
+    ) {
+      initializer = initializer.getExpression();
+    }
+    helper = initializer;
+  }
+  if (Node.isFunctionDeclaration(helper)) {
+    helper = helper.getImplementation() ?? helper;
+  }
+  if (
+    !Node.isFunctionDeclaration(helper) &&
+    !Node.isArrowFunction(helper) &&
+    !Node.isFunctionExpression(helper)
+  ) {
+    // Pure methods of strings and arrays, e.g. `PREFIX.toLowerCase()`
+    if (Node.isPropertyAccessExpression(callee)) {
+      const target = next(callee.getExpression());
+      const type = Array.isArray(target) ? "array" : typeof target;
+      const name = callee.getName();
+      if (PURE_METHODS[type]?.includes(name)) {
+        return (target as any)[name](...args);
+      }
+    }
+    throw new EvaluationError(
+      `Only calls of functions declared in the workspace can be evaluated`,
+      callee
+    );
+  }
+
+  const body = helper.getBody();
+  const statements = Node.isBlock(body) ? body.getStatements() : [];
+  const returned = Node.isBlock(body)
+    ? statements.length == 1 && Node.isReturnStatement(statements[0])
+      ? statements[0].getExpression()
+      : undefined
+    : body;
+  if (!returned) {
+    throw new EvaluationError(
+      `Only functions returning a single expression can be evaluated`,
+      helper
+    );
+  }
+
+  // Helpers only see their parameters and module level constants
+  const helperScope: Scope = new Map();
+  helper.getParameters().forEach((param, i) => {
+    if (!Node.isIdentifier(param.getNameNode())) {
+      throw new EvaluationError(
+        `Destructured parameters can't be evaluated`,
+        param
+      );
+    }
+    const initializer = param.getInitializer();
+    const value = param.isRestParameter()
+      ? args.slice(i)
+      : args[i] === undefined && initializer
+      ? next(initializer, helperScope)
+      : args[i];
+    helperScope.set(param, value);
+  });
+  return next(returned, helperScope);
+}
+
+/** Evaluates a pattern, which must be JSON data to be sent and neither null nor empty */
+export function evaluatePattern(node: Node): unknown {
+  const value = evaluate(node);
+  if (value === null || value === undefined) {
+    throw new EvaluationError(`Pattern is ${value}`, node);
+  }
+  if (
+    value === "" ||
+    (Array.isArray(value) && value.length == 0) ||
+    (R.isPlainObject(value) && Object.keys(value).length == 0)
+  ) {
+    throw new EvaluationError(`Pattern is empty`, node);
+  }
+  const check = (v: unknown): void => {
+    if (typeof v == "number" && !Number.isFinite(v)) {
+      throw new EvaluationError(`Pattern contains ${v}`, node);
+    }
+    if (Array.isArray(v)) return v.forEach(check);
+    if (R.isPlainObject(v)) return Object.values(v).forEach(check);
+    if (!["string", "number", "boolean"].includes(typeof v) && v !== null) {
+      throw new EvaluationError(`Pattern contains ${String(v)}`, node);
+    }
+  };
+  check(value);
+  return value;
+}
@@ -0,0 +1,185 @@
+import * as path from "node:path";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import {
+  extractServices,
+  generateClients,
+  type ServiceManifest,
+} from "./generator";
+
+const FILES = {
+  "apps/users/src/users.module.ts": `
+    import { Module } from "@nestjs/common";
+    import { UsersController } from "./users.controller";
+    @Module({ controllers: [UsersController] })
+    export class UsersModule {}
+  `,
+  "apps/users/src/users.controller.ts": `
+    import { Controller } from "@nestjs/common";
+    import { MessagePattern, Payload } from "@nestjs/microservices";
+
+    @Controller()
+    export class UsersController {
+      @MessagePattern("users.get")
+      getUser(@Payload() id: number): string {
+        return "";
+      }
+    }
+  `,
+};
+
+describe("events file", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      ...FILES,
+      "events.ts": `
+        export interface Events {
+          "users.user-deleted": { id: number };
+          "orders.order-created": { id: number };
+        }
+      `,
+      "malformed-events.ts": `export type Events = { "users.user-deleted": {} };`,
+    });
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  const extract = async (eventsFile: string) => {
+    const config = { root, eventsFile };
+    const services = await extractServices(config);
+    return {
+      diagnostics: services.flatMap((service) => service.diagnostics),
+      files: await generateClients(services, config),
+    };
+  };
+
+  it("declares the events of the services, and reports the others", async () => {
+    const { diagnostics, files } = await extract("events.ts");
+
+    expect(
+      files.get(path.join(root, "apps/users/src/users.proxy.generated.ts"))
+    ).toMatch(/emitUserDeleted\(\s*payload: \{ id: number \},/);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: "CG004",
+        message: expect.stringContaining(`"orders.order-created"`),
+      }),
+    ]);
+  });
+
+  it("reports an events file without an Events interface", async () => {
+    const { diagnostics } = await extract("malformed-events.ts");
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: "CG011",
+        message: `Events file should export an interface named "Events"`,
+        location: expect.objectContaining({
+          file: path.join(root, "malformed-events.ts"),
+          end: { line: 1, column: 51 },
+        }),
+      }),
+    ]);
+  });
+
+  it("reports a missing events file", async () => {
+    const { diagnostics } = await extract("missing-events.ts");
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: "CG011",
+        location: expect.objectContaining({
+          file: path.join(root, "missing-events.ts"),
+        }),
+      }),
+    ]);
+  });
+});
+
+describe("events declared by another service", () => {
+  let root: string;
+  let services: ServiceManifest[];
+  let files: Map<string, string>;
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "libs/proxies/src/client.service.ts": `
+        export type Options = {};
+        export function EmitsEvent<_Payload = void>(_pattern: string): ClassDecorator {
+          return () => {};
+        }
+      `,
+      "apps/users/src/users.module.ts": FILES["apps/users/src/users.module.ts"],
+      "apps/users/src/users.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { MessagePattern, Payload } from "@nestjs/microservices";
+        import { EmitsEvent } from "libs/proxies/src/client.service";
+
+        @Controller()
+        @EmitsEvent<{ id: number }>("users.user-deleted")
+        export class UsersController {
+          @MessagePattern("users.get")
+          getUser(@Payload() id: number): string {
+            return "";
+          }
+        }
+      `,
+      "apps/orders/src/orders.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { OrdersController } from "./orders.controller";
+        @Module({ controllers: [OrdersController] })
+        export class OrdersModule {}
+      `,
+      "apps/orders/src/orders.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { EventPattern, MessagePattern, Payload } from "@nestjs/microservices";
+
+        @Controller()
+        export class OrdersController {
+          @MessagePattern("orders.get")
+          getOrder(@Payload() id: number): string {
+            return "";
+          }
+
+          @EventPattern("users.user-deleted")
+          onUserDeleted(@Payload() user: { id: number }) {}
+
+          @EventPattern("users.user-deleted")
+          archiveUser(@Payload("id") id: string) {}
+        }
+      `,
+    });
+    const config = { root };
+    services = await extractServices(config);
+    files = await generateClients(services, config);
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  const proxy = (service: string) =>
+    files.get(
+      path.join(root, `apps/${service}/src/${service}.proxy.generated.ts`)
+    );
+
+  it("accepts handlers of the event in other services", () => {
+    const diagnostics = services.flatMap((service) => service.diagnostics);
+    expect(diagnostics.map((d) => d.code)).not.toContain("CG004");
+  });
+
+  it("publishes the event from the proxy of the declaring service only", () => {
+    expect(proxy("users")).toMatch(
+      /emitUserDeleted\(\s*payload: \{ id: number \},/
+    );
+    expect(proxy("orders")).not.toContain("emitUserDeleted");
+    expect(proxy("orders")).toContain("getOrder(");
+  });
+
+  it("reports handlers expecting a payload incompatible with the declared one", () => {
+    const diagnostics = services.flatMap((service) => service.diagnostics);
+    expect(diagnostics.map((d) => d.code)).toEqual(["CG008", "CG008"]);
+    expect(diagnostics.map((d) => d.message)).toContain(
+      `Payload types of OrdersController.archiveUser and @EmitsEvent declaration for event "users.user-deleted" are incompatible at "id"`
+    );
+  });
+});
@@ -0,0 +1,358 @@
+import * as path from "node:path";
+import * as R from "remeda";
+import { Node, Project, SyntaxKind, Type } from "ts-morph";
+import { GeneratorConfig } from "./config";
+import {
+  Diagnostic,
+  createDiagnostic,
+  getFileLocation,
+  rules,
+} from "./diagnostics";
+import { EvaluationError, evaluatePattern } from "./evaluate";
+import {
+  Conventions,
+  getClientMethodName,
+  getEventName,
+  getEventPatternRe,
+  getServiceName,
+} from "./conventions";
+import {
+  MethodInfo,
+  getDependencies,
+  getPayloadParameters,
+  isDecoratorOneOf,
+} from "./generator";
+import { PayloadPart } from "./type-schema";
+
+/** Event a service publishes without handling it, declared with `@EmitsEvent` or in the events file */
+export type EventDeclaration = {
+  serviceName: string;
+  eventName: string;
+  /** Method of the generated client proxy, e.g. `emitUserDeleted` */
+  clientMethodName: string;
+  /** Pattern expression, like the `pattern` of handlers */
+  pattern: string;
+  patternValue: string;
+  /** Undefined if the event has no payload */
+  payloadType?: Type;
+  /** Decorator or property of the events file declaring the event */
+  node: Node;
+};
+
+const EVENTS_INTERFACE = "Events";
+
+function hasNoPayload(type: Type | undefined) {
+  return !type || type.isVoid() || type.isUndefined();
+}
+
+/** Declares an event of the service if the pattern matches its event pattern convention */
+function declareEvent(
+  serviceName: string,
+  conventions: Conventions,
+  patternValue: string,
+  payloadType: Type | undefined,
+  node: Node,
+  diagnostics: Diagnostic[]
+): EventDeclaration | undefined {
+  const pattern = JSON.stringify(patternValue);
+  const eventName = getEventName(serviceName, patternValue, conventions);
+  if (!eventName) {
+    diagnostics.push(
+      createDiagnostic(
+        rules.eventPatternFormat,
+        `Declared event pattern should match ${getEventPatternRe(
+          serviceName,
+          conventions
+        )}: ${pattern}`,
+        node
+      )
+    );
+    return;
+  }
+
+  return {
+    serviceName,
+    eventName,
+    clientMethodName: getClientMethodName(
+      { kind: "event", eventName, pattern: patternValue },
+      conventions
+    ),
+    pattern,
+    patternValue,
+    payloadType: hasNoPayload(payloadType) ? undefined : payloadType,
+    node,
+  };
+}
+
+/** `Events` interface of the events file, undefined if the file doesn't exist or doesn't export it */
+function getEventsInterface(project: Project, eventsFile: string) {
+  const declaration = project
+    .getSourceFile(eventsFile)
+    ?.getExportedDeclarations()
+    .get(EVENTS_INTERFACE)?.[0];
+  return Node.isInterfaceDeclaration(declaration) ? declaration : undefined;
+}
+
+/** Properties of the `Events` interface of the events file, by pattern. Empty without the interface, which `checkEventsFile` reports */
+function getEventsFileEntries(project: Project, eventsFile: string) {
+  const declaration = getEventsInterface(project, eventsFile);
+  if (!declaration) return [];
+
+  return declaration
+    .getType()
+    .getProperties()
+    .map((prop) => ({
+      patternValue: prop.getName(),
+      payloadType: prop.getTypeAtLocation(declaration),
+      node: prop.getDeclarations()[0] ?? declaration,
+    }));
+}
+
+/**
+ * Events the service publishes without handling them:
+ * `@EmitsEvent<Payload>(pattern)` decorators in the files of the service, and the entries of the events file prefixed with its name.
+ */
+export function extractDeclaredEvents(
+  project: Project,
+  config: GeneratorConfig,
+  modulePath: string,
+  serviceName: string,
+  controllerPaths: string[]
+) {
+  const diagnostics: Diagnostic[] = [];
+  const serviceDir = path.dirname(modulePath) + path.sep;
+
+  const decorated = [...getDependencies(project, controllerPaths)]
+    .filter((file) => file.startsWith(serviceDir))
+    .flatMap((file) =>
+      project
+        .getSourceFileOrThrow(file)
+        .getDescendantsOfKind(SyntaxKind.Decorator)
+        .filter(isDecoratorOneOf("EmitsEvent"))
+    )
+    .map((decorator) => {
+      const call = decorator.getCallExpressionOrThrow();
+      const [patternExpr = decorator] = call.getArguments();
+      let patternValue: unknown;
+      try {
+        patternValue = evaluatePattern(patternExpr);
+        if (typeof patternValue != "string") {
+          throw new EvaluationError(`Pattern is not a string`, patternExpr);
+        }
+      } catch (error) {
+        if (!(error instanceof EvaluationError)) throw error;
+        diagnostics.push(
+          createDiagnostic(
+            rules.unextractablePattern,
+            `Couldn't extract pattern of declared event: ${error.message}`,
+            patternExpr
+          )
+        );
+        return;
+      }
+      const payloadType = call.getTypeArguments()[0]?.getType();
+      return declareEvent(
+        serviceName,
+        config.conventions,
+        patternValue,
+        payloadType,
+        decorator,
+        diagnostics
+      );
+    });
+
+  const eventPatternRe = getEventPatternRe(serviceName, config.conventions);
+  const listed = config.eventsFile
+    ? getEventsFileEntries(project, config.eventsFile)
+        .filter((entry) => eventPatternRe.test(entry.patternValue))
+        .map((entry) =>
+          declareEvent(
+            serviceName,
+            config.conventions,
+            entry.patternValue,
+            entry.payloadType,
+            entry.node,
+            diagnostics
+          )
+        )
+    : [];
+
+  return {
+    events: [...decorated, ...listed].filter(R.isDefined),
+    diagnostics,
+  };
+}
+
+/** Events file that doesn't exist or doesn't export an `Events` interface, and entries of it that aren't an event pattern of any service */
+export function checkEventsFile(
+  project: Project,
+  config: GeneratorConfig,
+  mainModulePaths: string[]
+) {
+  if (!config.eventsFile) return [];
+
+  const sourceFile = project.getSourceFile(config.eventsFile);
+  if (!sourceFile) {
+    return [
+      createDiagnostic(
+        rules.eventsFile,
+        `Events file doesn't exist: ${config.eventsFile}`,
+        getFileLocation(config.eventsFile)
+      ),
+    ];
+  }
+  if (!getEventsInterface(project, config.eventsFile)) {
+    return [
+      createDiagnostic(
+        rules.eventsFile,
+        `Events file should export an interface named "${EVENTS_INTERFACE}"`,
+        sourceFile.getExportedDeclarations().get(EVENTS_INTERFACE)?.[0] ??
+          getFileLocation(config.eventsFile)
+      ),
+    ];
+  }
+
+  const eventPatternRes = mainModulePaths.map((modulePath) =>
+    getEventPatternRe(
+      getServiceName(modulePath, config.conventions),
+      config.conventions
+    )
+  );
+  return getEventsFileEntries(project, config.eventsFile)
+    .filter(
+      (entry) => !eventPatternRes.some((re) => re.test(entry.patternValue))
+    )
+    .map((entry) =>
+      createDiagnostic(
+        rules.eventPatternFormat,
+        `Declared event pattern doesn't match the event pattern of any service: "${entry.patternValue}"`,
+        entry.node
+      )
+    );
+}
+
+type EventPayload = {
+  /** Handler or declaration the payload comes from, e.g. `UsersController.onUserCreated` */
+  label: string;
+  node: Node;
+  parts: Omit<PayloadPart, "isOptional">[];
+};
+
+const MAX_CONFLICT_DEPTH = 5;
+
+/** Path of a property at which no value has both types, e.g. `["address", "zip"]`. Undefined if some value has both */
+function findConflict(
+  a: Type,
+  b: Type,
+  node: Node,
+  depth = 0
+): string[] | undefined {
+  const isOpen = (t: Type) => t.isAny() || t.isUnknown() || t.isTypeParameter();
+  if (depth > MAX_CONFLICT_DEPTH || isOpen(a) || isOpen(b)) return;
+  if (a.isAssignableTo(b) || b.isAssignableTo(a)) return;
+
+  if (a.isUnion() || b.isUnion()) {
+    const aMembers = a.isUnion() ? a.getUnionTypes() : [a];
+    const bMembers = b.isUnion() ? b.getUnionTypes() : [b];
+    const isDisjoint = aMembers.every((x) =>
+      bMembers.every((y) => findConflict(x, y, node, depth + 1))
+    );
+    return isDisjoint ? [] : undefined;
+  }
+
+  // An empty array has any element type
+  if (a.isArray() || b.isArray()) {
+    return a.isObject() && b.isObject() ? undefined : [];
+  }
+
+  if (a.isObject() && b.isObject()) {
+    for (const prop of a.getProperties()) {
+      const other = b.getProperty(prop.getName());
+      if (!other || (prop.isOptional() && other.isOptional())) continue;
+      const conflict = findConflict(
+        prop.getTypeAtLocation(node),
+        other.getTypeAtLocation(node),
+        node,
+        depth + 1
+      );
+      if (conflict) return [prop.getName(), ...conflict];
+    }
+    return;
+  }
+
+  return [];
+}
+
+/** Conflict of two payloads made from parts: whole payloads, and properties of it received by keyed parameters */
+function findPayloadConflict(a: EventPayload, b: EventPayload) {
+  for (const x of a.parts) {
+    for (const y of b.parts) {
+      const [keyed, other] = x.key === undefined ? [y, x] : [x, y];
+      if (keyed.key === undefined) {
+        const conflict = findConflict(x.type, y.type, a.node);
+        if (conflict) return conflict;
+        continue;
+      }
+      if (other.key !== undefined && other.key !== keyed.key) continue;
+
+      const otherType =
+        other.key === undefined
+          ? other.type.getProperty(keyed.key)?.getTypeAtLocation(a.node)
+          : other.type;
+      const conflict = otherType && findConflict(keyed.type, otherType, a.node);
+      if (conflict) return [keyed.key, ...conflict];
+    }
+  }
+}
+
+/** Reports handlers and declarations of the same event whose payload types have no value in common, which makes the `emit*` method uncallable */
+export function checkEventPayloads(
+  handlers: MethodInfo[],
+  declarations: EventDeclaration[]
+) {
+  const payloads = [
+    ...handlers
+      .filter((info) => info.isEventHandler)
+      .map((info) => ({
+        clientMethodName: info.clientMethodName,
+        pattern: info.pattern,
+        label: `${info.className}.${info.methodName}`,
+        node: info.method.getNameNode() as Node,
+        parts: getPayloadParameters(info.method, info).map(
+          ({ key, param }) => ({ key, type: param.getType() })
+        ),
+      })),
+    ...declarations.map((event) => ({
+      clientMethodName: event.clientMethodName,
+      pattern: event.pattern,
+      label: Node.isDecorator(event.node)
+        ? "@EmitsEvent declaration"
+        : "events file entry",
+      node: event.node,
+      parts: event.payloadType ? [{ type: event.payloadType }] : [],
+    })),
+  ];
+
+  return R.pipe(
+    payloads,
+    R.groupBy(R.prop("clientMethodName")),
+    R.values(),
+    R.flatMap((group) =>
+      group.flatMap((payload, i) =>
+        group.slice(0, i).flatMap((earlier) => {
+          const conflict = findPayloadConflict(earlier, payload);
+          if (!conflict) return [];
+          const at = conflict.length > 0 ? ` at "${conflict.join(".")}"` : "";
+          return [
+            createDiagnostic(
+              rules.eventPayloadConflict,
+              `Payload types of ${earlier.label} and ${payload.label} for event ${payload.pattern} are incompatible${at}`,
+              payload.node,
+              [earlier.node]
+            ),
+          ];
+        })
+      )
+    )
+  );
+}
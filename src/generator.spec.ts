@@ -0,0 +1,319 @@
+import * as path from "node:path";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import {
+  extractServices,
+  generateClients,
+  type ServiceManifest,
+} from "./generator";
+
+describe("proxy method signatures", () => {
+  let root: string;
+  let proxy: string | undefined;
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/search/src/search.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { SearchController } from "./search.controller";
+        @Module({ controllers: [SearchController] })
+        export class SearchModule {}
+      `,
+      "apps/search/src/search.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { MessagePattern, Payload } from "@nestjs/microservices";
+
+        @Controller()
+        export class SearchController {
+          @MessagePattern("search.find")
+          find(@Payload() query: string): string[];
+          find(@Payload() query: number): number[];
+          find(@Payload() query: boolean): boolean[];
+          find(@Payload() query: null): null;
+          find(@Payload() query: string | number | boolean | null): unknown {
+            return [];
+          }
+
+          @MessagePattern("search.echo")
+          echo<T extends { id: number }>(@Payload() item: T): T {
+            return item;
+          }
+        }
+      `,
+    });
+    const config = { root };
+    const files = await generateClients(await extractServices(config), config);
+    proxy = files.get(
+      path.join(root, "apps/search/src/search.proxy.generated.ts")
+    );
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  it("declares every overload of a handler, beyond three", () => {
+    expect(proxy).toContain(
+      "find(payload: string, options?: Options): Promise<string[]>;"
+    );
+    expect(proxy).toContain(
+      "find(payload: number, options?: Options): Promise<number[]>;"
+    );
+    expect(proxy).toContain(
+      "find(payload: boolean, options?: Options): Promise<boolean[]>;"
+    );
+    expect(proxy).toContain(
+      "find(payload: null, options?: Options): Promise<null>;"
+    );
+    expect(proxy).not.toContain("unknown");
+  });
+
+  it("keeps the type parameters of generic handlers", () => {
+    expect(proxy).toContain(
+      "echo<T extends { id: number }>(payload: T, options?: Options): Promise<T>;"
+    );
+  });
+});
+
+describe("contract versions", () => {
+  let root: string;
+  let files: Map<string, string>;
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/users/src/users.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { UsersController } from "./users.controller";
+        import { UsersV2Controller } from "./users-v2.controller";
+        @Module({ controllers: [UsersController, UsersV2Controller] })
+        export class UsersModule {}
+      `,
+      "apps/users/src/users.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { MessagePattern, Payload } from "@nestjs/microservices";
+
+        @Controller()
+        export class UsersController {
+          @MessagePattern("users.get")
+          getUser(@Payload() id: number): { id: number } {
+            return { id };
+          }
+        }
+      `,
+      "apps/users/src/users-v2.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { MessagePattern, Payload } from "@nestjs/microservices";
+        import { ContractVersion } from "libs/proxies/src/client.service";
+
+        @Controller()
+        @ContractVersion(2)
+        export class UsersV2Controller {
+          @MessagePattern("users.get.v2")
+          getUser(@Payload() id: string): { id: string } {
+            return { id };
+          }
+        }
+      `,
+      "libs/proxies/src/client.service.ts": `
+        export type Options = {};
+        export function ContractVersion(_version: number): ClassDecorator & MethodDecorator {
+          return () => {};
+        }
+      `,
+    });
+    const config = { root };
+    files = await generateClients(await extractServices(config), config);
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  const proxy = () =>
+    files.get(path.join(root, "apps/users/src/users.proxy.generated.ts"))!;
+  const patterns = () =>
+    files.get(path.join(root, "libs/proxies/src/generated/patterns.ts"))!;
+
+  it("declares the latest version in the proxy and each version in a nested proxy", () => {
+    expect(proxy()).toMatch(
+      /interface UsersProxy \{\s*getUser\(payload: string, options\?: Options\): Promise<\{ id: string \}>;\s*v1: UsersV1Proxy;\s*v2: UsersV2Proxy;\s*\}/
+    );
+    expect(proxy()).toMatch(
+      /interface UsersV1Proxy \{\s*getUser\(payload: number, options\?: Options\): Promise<\{ id: number \}>;\s*\}/
+    );
+  });
+
+  it("maps each version to its own patterns", () => {
+    expect(patterns()).toContain(
+      `users: { getUser: ["users.get.v2", true, "message"] }`
+    );
+    expect(patterns()).toContain(
+      `"users.v1": { getUser: ["users.get", true, "message"] }`
+    );
+    expect(patterns()).toContain(
+      `"users.v2": { getUser: ["users.get.v2", true, "message"] }`
+    );
+  });
+});
+
+describe("pattern values", () => {
+  let root: string;
+  let services: ServiceManifest[];
+  let patterns: string | undefined;
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/codes/src/codes.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { CodesController } from "./codes.controller";
+        @Module({ controllers: [CodesController] })
+        export class CodesModule {}
+      `,
+      "apps/codes/src/codes.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { MessagePattern } from "@nestjs/microservices";
+
+        @Controller()
+        export class CodesController {
+          @MessagePattern(42)
+          answer() {}
+
+          @MessagePattern(true)
+          enabled() {}
+
+          @MessagePattern(null)
+          nothing() {}
+
+          @MessagePattern({})
+          empty() {}
+        }
+      `,
+    });
+    const config = { root };
+    services = await extractServices(config);
+    const files = await generateClients(services, config);
+    patterns = files.get(
+      path.join(root, "libs/proxies/src/generated/patterns.ts")
+    );
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  it("accepts numeric and boolean patterns", () => {
+    expect(patterns).toContain(`answer: [42, false, "message"]`);
+    expect(patterns).toContain(`enabled: [true, false, "message"]`);
+  });
+
+  it("reports null and empty patterns instead of failing", () => {
+    expect(services[0].diagnostics.map((d) => [d.code, d.message])).toEqual([
+      [
+        "CG003",
+        `Couldn't extract pattern expression for "nothing": Pattern is null`,
+      ],
+      [
+        "CG003",
+        `Couldn't extract pattern expression for "empty": Pattern is empty`,
+      ],
+    ]);
+  });
+});
+
+describe("payload parameters", () => {
+  let root: string;
+  let services: ServiceManifest[];
+  let proxy: string | undefined;
+  let patterns: string | undefined;
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/accounts/src/accounts.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { AccountsController } from "./accounts.controller";
+        @Module({ controllers: [AccountsController] })
+        export class AccountsModule {}
+      `,
+      "apps/accounts/src/accounts.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { Ctx, MessagePattern, Payload, RmqContext } from "@nestjs/microservices";
+
+        declare function CurrentUser(): ParameterDecorator;
+        declare function Data(): ParameterDecorator;
+
+        @Controller()
+        export class AccountsController {
+          @MessagePattern("accounts.get")
+          getAccount(@Payload() id: number, @Ctx() context: RmqContext): void {}
+
+          @MessagePattern("accounts.whoami")
+          whoami(@Ctx() context: RmqContext): void {}
+
+          @MessagePattern("accounts.rename")
+          rename(@Payload("id") id: number, @Payload("name") name?: string): void {}
+
+          @MessagePattern("accounts.transfer")
+          transfer(@CurrentUser() user: { id: number }, @Data() data: { amount: number }): void {}
+
+          @MessagePattern("accounts.close")
+          close(@Payload() id: number, reason: string): void {}
+
+          @MessagePattern("accounts.ping")
+          ping(value: string): void {}
+        }
+      `,
+    });
+    const config = {
+      root,
+      payloadDecorators: { CurrentUser: "user", Data: true } as const,
+    };
+    services = await extractServices(config);
+    const files = await generateClients(services, config);
+    proxy = files.get(
+      path.join(root, "apps/accounts/src/accounts.proxy.generated.ts")
+    );
+    patterns = files.get(
+      path.join(root, "libs/proxies/src/generated/patterns.ts")
+    );
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  it("skips context parameters", () => {
+    expect(proxy).toContain(
+      "getAccount(payload: number, options?: Options): Promise<void>;"
+    );
+    expect(proxy).toContain("whoami(options?: Options): Promise<void>;");
+    expect(patterns).toContain(`getAccount: ["accounts.get", true, "message"]`);
+    expect(patterns).toContain(`whoami: ["accounts.whoami", false, "message"]`);
+  });
+
+  it("combines keyed parameters into an object payload", () => {
+    expect(proxy).toMatch(
+      /rename\(\s*payload: \{ id: number; name\?: string \| undefined \},\s*options\?: Options,\s*\): Promise<void>;/
+    );
+    expect(patterns).toContain(`rename: ["accounts.rename", true, "message"]`);
+  });
+
+  it("reads the payload of configured parameter decorators", () => {
+    expect(proxy).toMatch(
+      /transfer\(\s*payload: \{ amount: number \} & \{ user: \{ id: number \} \},\s*options\?: Options,\s*\): Promise<void>;/
+    );
+    expect(patterns).toContain(
+      `transfer: ["accounts.transfer", true, "message"]`
+    );
+  });
+
+  it("warns about undecorated parameters next to decorated ones", () => {
+    expect(proxy).toContain(
+      "close(payload: number, options?: Options): Promise<void>;"
+    );
+    expect(patterns).toContain(`close: ["accounts.close", true, "message"]`);
+    expect(services[0].diagnostics.map((d) => [d.code, d.message])).toEqual([
+      [
+        "CG007",
+        `Parameter "reason" of "close" has no decorator and receives undefined`,
+      ],
+    ]);
+  });
+
+  it("takes the first parameter as payload if none is decorated", () => {
+    expect(proxy).toContain(
+      "ping(payload: string, options?: Options): Promise<void>;"
+    );
+    expect(patterns).toContain(`ping: ["accounts.ping", true, "message"]`);
+  });
+});
@@ -0,0 +1,1209 @@
+import * as fg from "fast-glob";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as prettier from "prettier";
+import * as R from "remeda";
+import {
+  CallExpression,
+  ClassDeclaration,
+  Decorator,
+  MethodDeclaration,
+  ParameterDeclaration,
+  Project,
+  SourceFile,
+  SyntaxKind,
+  Type,
+  TypeFlags,
+} from "ts-morph";
+import {
+  GeneratorConfig,
+  STANDALONE_TRANSPORTS,
+  TransportName,
+  UserConfig,
+  resolveConfig,
+} from "./config";
+import {
+  Conventions,
+  defaultConventions,
+  getClientMethodName,
+  getEventName,
+  getEventPatternRe,
+  getServiceName,
+  isStreamingHandler,
+} from "./conventions";
+import { getReplyType, renderManifestFile } from "./manifest";
+import { EvaluationError, evaluate, evaluatePattern } from "./evaluate";
+import { renderAsyncApiFiles } from "./asyncapi";
+import {
+  TypePrinter,
+  createTypePrinter,
+  printPropertyName,
+} from "./type-printer";
+import { renderValidatorsFile } from "./validators";
+import {
+  EventDeclaration,
+  checkEventPayloads,
+  checkEventsFile,
+  extractDeclaredEvents,
+} from "./events";
+import {
+  Diagnostic,
+  createDiagnostic,
+  getFileLocation,
+  rules,
+} from "./diagnostics";
+
+/** Extracts message and event handlers and their pattern values and payload and return types and generates a convenient typed microservices client
+ * Assumtions made:
+ * - each service contains a main module with the same name as one of its parent dirs and module includes all controllers
+ * - controllers are in files matching the configured globs, by default (.*\.)?controller.ts
+ * - message handler names are unique in each service and will be used as method name in client proxy
+ * - message handler names should not start with the emit prefix, by default "emit"
+ * - name of message handlers where return value is an observable with possibly more than one value returned, should have a dollar sign ("$") at the end, or an Observable return type with the "returnType" streaming convention. this will be used to determine wether the corresponding client method will return an observable or promise.
+ * - event patterns should be strings matching the event pattern, by default "<service name in kebabcase>.<event name>". a corresponding method named "<emit prefix><event name in PacalCase>"" will be created in client proxy
+ * - these naming rules can be changed with the `conventions` option, see conventions.ts
+ * - pattern values should either be a constant inline expression or have a type that contains a single possible value
+ */
+
+/** Parameter of a handler that receives the payload, or a property of it */
+export type PayloadParam = {
+  index: number;
+  /** Property of the payload, e.g. from `@Payload("id")`. The whole payload if omitted */
+  key?: string;
+};
+
+/** How the runtime client calls a method: `send` replying with a Promise or an Observable, or `emit` */
+export type MethodKind = "message" | "stream" | "event";
+
+export type MethodInfo = {
+  controllerPath: string;
+  className: string;
+  methodName: string;
+  /** Method of the generated client proxy, e.g. `getUser` or `emitUserCreated` */
+  clientMethodName: string;
+  pattern: string;
+  patternValue: unknown;
+  /** Empty if the handler receives no payload */
+  payloadParams: PayloadParam[];
+  serviceName: string;
+  method: MethodDeclaration;
+  isEventHandler: boolean;
+  /** Message handler may reply with more than one value, so its client method returns an Observable */
+  isStreaming: boolean;
+  eventName?: string;
+  /** Contract version of a message handler from `@ContractVersion`. Handlers without one belong to version 1 */
+  version?: number;
+};
+
+export interface ServiceManifest {
+  serviceName: string;
+  modulePath: string;
+  controllerPaths: string[];
+  methods: MethodInfo[];
+  /** Events the service publishes without handling them */
+  events: EventDeclaration[];
+  /** Configured transport, undefined if the proxy supports every transport */
+  transport?: TransportName;
+  diagnostics: Diagnostic[];
+}
+
+export interface ExtractOptions extends UserConfig {
+  /** Existing project to extract from, e.g. one kept alive between runs. Created from the config if omitted */
+  project?: Project;
+}
+
+export const isDecoratorOneOf =
+  (...names: [name: string] | [names: string[]] | string[]) =>
+  (d: Decorator) => {
+    const text = d
+      .getExpressionIfKind(SyntaxKind.CallExpression)
+      ?.getExpressionIfKind(SyntaxKind.Identifier)
+      ?.getText();
+    return names.flat().includes(text);
+  };
+
+/** Parameters of a handler that receive the payload. Without parameter decorators Nest passes the payload as the first argument, otherwise undecorated parameters receive `undefined` */
+function getPayloadParams(
+  method: MethodDeclaration,
+  payloadDecorators: Record<string, string | true>
+) {
+  const parameters = method.getParameters();
+  if (parameters.every((p) => p.getDecorators().length == 0)) {
+    return { payloadParams: parameters.length > 0 ? [{ index: 0 }] : [] };
+  }
+
+  const payloadParams: PayloadParam[] = [];
+  const undecorated: ParameterDeclaration[] = [];
+  parameters.forEach((param, index) => {
+    const decorators = param.getDecorators();
+    if (decorators.length == 0) return undecorated.push(param);
+
+    const decorator = decorators.find(
+      isDecoratorOneOf(["Payload", "Body", ...Object.keys(payloadDecorators)])
+    );
+    if (!decorator) return;
+
+    const name = decorator.getName();
+    const key =
+      name in payloadDecorators
+        ? payloadDecorators[name]
+        : decorator.getArguments()[0]?.getType().getLiteralValue();
+    payloadParams.push(typeof key == "string" ? { index, key } : { index });
+  });
+  return { payloadParams, undecorated };
+}
+
+function isMainModule(root: string, modulePath: string) {
+  const name = path.basename(modulePath, ".module.ts");
+  return path
+    .relative(root, path.dirname(modulePath))
+    .split(path.sep)
+    .includes(name);
+}
+
+export async function findMainModules(config: GeneratorConfig) {
+  const modulePaths = await fg.async(config.services, {
+    cwd: config.root,
+    absolute: true,
+  });
+  return modulePaths.filter((p) => isMainModule(config.root, p));
+}
+
+export function findControllers(config: GeneratorConfig, modulePath: string) {
+  return fg.async(config.controllers, {
+    cwd: path.dirname(modulePath),
+    absolute: true,
+  });
+}
+
+export async function createProject(
+  config: GeneratorConfig,
+  mainModulePaths: string[]
+) {
+  const tsConfig = await import(config.tsconfig);
+
+  const compilerOptions = R.omit(tsConfig.compilerOptions, [
+    "module",
+    "moduleResolution",
+    "target",
+  ]);
+  const project = new Project({ compilerOptions });
+  project.addSourceFilesAtPaths(mainModulePaths);
+  project.addSourceFileAtPath(config.clientService);
+  // Missing events file is reported by `checkEventsFile`
+  if (config.eventsFile) {
+    project.addSourceFileAtPathIfExists(config.eventsFile);
+  }
+  project.resolveSourceFileDependencies();
+  return project;
+}
+
+/** Workspace files the extracted methods of a service depend on: its controllers and everything they import */
+export function getDependencies(project: Project, controllerPaths: string[]) {
+  const dependencies = new Set<string>();
+
+  const visit = (sourceFile: SourceFile) => {
+    const filePath = sourceFile.getFilePath();
+    if (dependencies.has(filePath) || sourceFile.isInNodeModules()) return;
+    dependencies.add(filePath);
+    sourceFile.getReferencedSourceFiles().forEach(visit);
+  };
+
+  controllerPaths
+    .map((p) => project.getSourceFile(p))
+    .filter(R.isDefined)
+    .forEach(visit);
+
+  return dependencies;
+}
+
+/** Configured transport of the service */
+export function getServiceTransport(
+  config: Pick<GeneratorConfig, "transports">,
+  serviceName: string
+) {
+  return config.transports?.[R.uncapitalize(serviceName)];
+}
+
+/** Kafka topic names, which patterns are used as on Kafka */
+const KAFKA_TOPIC_RE = /^[\w.-]+$/;
+
+/** Pattern of a `@GrpcMethod(service?, rpc?)` handler, Nest defaults to the class name and the capitalized method name */
+function getGrpcPattern(
+  call: CallExpression,
+  className: string,
+  methodName: string
+) {
+  const [service, rpc] = call.getArguments().map((arg) => {
+    const value = evaluate(arg);
+    if (typeof value != "string") {
+      throw new EvaluationError(
+        `gRPC service and method names should be strings`,
+        arg
+      );
+    }
+    return value;
+  });
+  return {
+    service: service ?? className,
+    rpc: rpc ?? R.capitalize(methodName),
+  };
+}
+
+/** Contract version of a handler from `@ContractVersion(version)` on it or on its class, undefined if there is none */
+function getContractVersion(
+  method: MethodDeclaration,
+  classNode: ClassDeclaration
+) {
+  const decorator = [
+    ...method.getDecorators(),
+    ...classNode.getDecorators(),
+  ].find(isDecoratorOneOf("ContractVersion"));
+  if (!decorator) return;
+
+  const [versionExpr = decorator] = decorator.getArguments();
+  const version = evaluate(versionExpr);
+  if (typeof version != "number" || !Number.isInteger(version) || version < 1) {
+    throw new EvaluationError(
+      `Contract version should be a positive integer`,
+      versionExpr
+    );
+  }
+  return version;
+}
+
+export type ExtractMethodsOptions = Partial<
+  Pick<
+    GeneratorConfig,
+    "payloadDecorators" | "conventions" | "transports" | "target"
+  >
+> & {
+  /** Events declared by other services, which event handlers of this service may subscribe to */
+  subscribableEvents?: EventDeclaration[];
+};
+
+export function extractMethods(
+  project: Project,
+  serviceName: string,
+  controllerPaths: string[],
+  {
+    payloadDecorators = {},
+    conventions = defaultConventions,
+    transports,
+    target,
+    subscribableEvents = [],
+  }: ExtractMethodsOptions = {}
+) {
+  const checker = project.getTypeChecker();
+  const diagnostics: Diagnostic[] = [];
+  // Handlers of events declared by other services, whose proxies publish them
+  const subscriptions: MethodInfo[] = [];
+  const { emitPrefix } = conventions;
+  const transport = getServiceTransport({ transports }, serviceName);
+
+  const methods: MethodInfo[] = controllerPaths
+    .map((controllerPath) =>
+      project
+        .getSourceFile(controllerPath)
+        .getChildrenOfKind(SyntaxKind.ClassDeclaration)
+        .filter((node) =>
+          node.getModifiers().some((n) => n.isKind(SyntaxKind.ExportKeyword))
+        )
+        .map((classNode) =>
+          classNode
+            .getChildrenOfKind(SyntaxKind.MethodDeclaration)
+            .map((method) => {
+              const decorators = method.getDecorators();
+              const patternDecorator = decorators.find(
+                isDecoratorOneOf("MessagePattern", "EventPattern", "GrpcMethod")
+              );
+
+              if (!patternDecorator) return;
+
+              const decoratorCallExpr =
+                patternDecorator.getExpressionIfKindOrThrow(
+                  SyntaxKind.CallExpression
+                );
+              const decoratorMethodIdentifier =
+                decoratorCallExpr.getExpressionIfKindOrThrow(
+                  SyntaxKind.Identifier
+                );
+              const isEventHandler =
+                decoratorMethodIdentifier.getText() === "EventPattern";
+              const isGrpcMethod =
+                decoratorMethodIdentifier.getText() === "GrpcMethod";
+              const className = classNode.getName();
+              const methodName = method.getName();
+              const [patternExpr = patternDecorator] =
+                decoratorCallExpr.getArguments();
+              const patternExprType = checker.getTypeAtLocation(patternExpr);
+              const controllerPath = method.getSourceFile().getFilePath();
+
+              if (transport && isGrpcMethod != (transport == "grpc")) {
+                diagnostics.push(
+                  createDiagnostic(
+                    rules.transportPattern,
+                    isGrpcMethod
+                      ? `gRPC method "${methodName}" is in a service using the ${transport} transport`
+                      : `Handler "${methodName}" is in a service using the gRPC transport`,
+                    patternDecorator
+                  )
+                );
+                return;
+              }
+
+              const handlerTransport = isGrpcMethod ? "grpc" : transport;
+              if (
+                target == "standalone" &&
+                handlerTransport &&
+                !STANDALONE_TRANSPORTS.includes(handlerTransport)
+              ) {
+                diagnostics.push(
+                  createDiagnostic(
+                    rules.transportPattern,
+                    `Handler "${methodName}" is in a service using the ${handlerTransport} transport, which the standalone client doesn't speak`,
+                    patternDecorator
+                  )
+                );
+                return;
+              }
+
+              if (
+                isEventHandler &&
+                !(patternExprType.getFlags() & TypeFlags.StringLike)
+              ) {
+                diagnostics.push(
+                  createDiagnostic(
+                    rules.eventPatternNotString,
+                    `Pattern expression for event handlers should be recognizable as string: method "${methodName}"`,
+                    patternExpr
+                  )
+                );
+                return;
+              }
+
+              if (
+                !isEventHandler &&
+                emitPrefix &&
+                methodName.startsWith(emitPrefix)
+              ) {
+                diagnostics.push(
+                  createDiagnostic(
+                    rules.messageHandlerEmitPrefix,
+                    `Message handler name should not start with "${emitPrefix}": method "${methodName}"`,
+                    method.getNameNode()
+                  )
+                );
+                return;
+              }
+
+              let patternValue: unknown;
+              try {
+                patternValue = isGrpcMethod
+                  ? getGrpcPattern(decoratorCallExpr, className, methodName)
+                  : evaluatePattern(patternExpr);
+              } catch (error) {
+                if (!(error instanceof EvaluationError)) throw error;
+                diagnostics.push(
+                  createDiagnostic(
+                    rules.unextractablePattern,
+                    `Couldn't extract pattern expression for "${methodName}": ${error.message}`,
+                    patternExpr,
+                    error.node.getSourceFile() === method.getSourceFile()
+                      ? undefined
+                      : [error.node]
+                  )
+                );
+                return;
+              }
+              const pattern = JSON.stringify(patternValue);
+
+              if (
+                transport == "kafka" &&
+                !(
+                  typeof patternValue == "string" &&
+                  KAFKA_TOPIC_RE.test(patternValue)
+                )
+              ) {
+                diagnostics.push(
+                  createDiagnostic(
+                    rules.transportPattern,
+                    `Pattern of "${methodName}" is not a valid Kafka topic name: ${pattern}`,
+                    patternExpr
+                  )
+                );
+                return;
+              }
+
+              const subscribed = isEventHandler
+                ? subscribableEvents.find(
+                    (event) => event.patternValue === patternValue
+                  )
+                : undefined;
+              const eventName = isEventHandler
+                ? subscribed?.eventName ??
+                  getEventName(serviceName, patternValue, conventions)
+                : undefined;
+              if (isEventHandler && !eventName) {
+                diagnostics.push(
+                  createDiagnostic(
+                    rules.eventPatternFormat,
+                    `Event handler pattern should match ${getEventPatternRe(
+                      serviceName,
+                      conventions
+                    )}: ${pattern}`,
+                    patternExpr
+                  )
+                );
+                return;
+              }
+
+              const { payloadParams, undecorated = [] } = getPayloadParams(
+                method,
+                payloadDecorators
+              );
+              for (const param of undecorated) {
+                diagnostics.push(
+                  createDiagnostic(
+                    rules.undecoratedParameter,
+                    `Parameter "${param.getName()}" of "${methodName}" has no decorator and receives undefined`,
+                    param
+                  )
+                );
+              }
+
+              let version: number | undefined;
+              if (isEventHandler) {
+                const versionDecorator = decorators.find(
+                  isDecoratorOneOf("ContractVersion")
+                );
+                if (versionDecorator) {
+                  diagnostics.push(
+                    createDiagnostic(
+                      rules.contractVersion,
+                      `Event handler "${methodName}" can't be versioned, all handlers of an event receive the same payload`,
+                      versionDecorator
+                    )
+                  );
+                }
+              } else {
+                try {
+                  version = getContractVersion(method, classNode);
+                } catch (error) {
+                  if (!(error instanceof EvaluationError)) throw error;
+                  diagnostics.push(
+                    createDiagnostic(
+                      rules.contractVersion,
+                      `Couldn't extract contract version of "${methodName}": ${error.message}`,
+                      error.node
+                    )
+                  );
+                  return;
+                }
+              }
+
+              const clientMethodName =
+                subscribed?.clientMethodName ??
+                getClientMethodName(
+                  {
+                    kind: isEventHandler ? "event" : "message",
+                    handlerName: methodName,
+                    className,
+                    eventName,
+                    pattern: patternValue,
+                  },
+                  conventions
+                );
+
+              const info: MethodInfo = {
+                controllerPath,
+                className,
+                methodName,
+                clientMethodName,
+                pattern,
+                patternValue,
+                payloadParams,
+                serviceName,
+                isEventHandler,
+                isStreaming:
+                  !isEventHandler && isStreamingHandler(method, conventions),
+                eventName,
+                version,
+                method,
+              };
+              if (!subscribed) return info;
+              subscriptions.push(info);
+            })
+        )
+    )
+    .flat(2)
+    .filter(R.isDefined);
+
+  // Handlers of the same event share their client method, and each version of a message handler has its own
+  const isConflicting = (a: MethodInfo, b: MethodInfo) =>
+    a.isEventHandler != b.isEventHandler ||
+    (!a.isEventHandler && (a.version ?? 1) == (b.version ?? 1));
+  const groups = R.values(R.groupBy(methods, R.prop("clientMethodName")));
+
+  for (const group of groups) {
+    for (const info of group) {
+      const others = group.filter(
+        (other) => other !== info && isConflicting(info, other)
+      );
+      if (others.length == 0) continue;
+      diagnostics.push(
+        createDiagnostic(
+          rules.duplicateMethodName,
+          `Method "${info.clientMethodName}" in service "${serviceName}" is not named uniquely`,
+          info.method.getNameNode(),
+          others.map((other) => other.method.getNameNode())
+        )
+      );
+    }
+
+    // Nest routes a pattern to a single handler
+    const versioned = group.filter((info) => R.isDefined(info.version));
+    for (const info of versioned) {
+      const same = group.filter(
+        (other) =>
+          !other.isEventHandler &&
+          (other.version ?? 1) < info.version! &&
+          other.pattern == info.pattern
+      );
+      if (same.length == 0) continue;
+      diagnostics.push(
+        createDiagnostic(
+          rules.contractVersion,
+          `Version ${info.version} of "${info.clientMethodName}" has the same pattern as an earlier version: ${info.pattern}`,
+          info.method.getNameNode(),
+          same.map((other) => other.method.getNameNode())
+        )
+      );
+    }
+  }
+
+  return { methods, subscriptions, diagnostics };
+}
+
+export function checkDuplicateServices(
+  mainModulePaths: string[],
+  conventions: Conventions = defaultConventions
+) {
+  return R.pipe(
+    mainModulePaths,
+    R.groupBy((p) => getServiceName(p, conventions)),
+    R.entries(),
+    R.filter(([, group]) => group.length > 1),
+    R.flatMap(([serviceName, group]) =>
+      group.map((modulePath) =>
+        createDiagnostic(
+          rules.duplicateServiceName,
+          `Service "${serviceName}" is not named uniquely`,
+          getFileLocation(modulePath),
+          group.filter((other) => other !== modulePath).map(getFileLocation)
+        )
+      )
+    )
+  );
+}
+
+/** Kind of the client method of a handler, which tells the runtime client how to call it */
+export function getMethodKind(info: MethodInfo): MethodKind {
+  if (info.isEventHandler) return "event";
+  return info.isStreaming ? "stream" : "message";
+}
+
+/** Whether the proxy of the service has any method */
+export function hasClientMethods(service: ServiceManifest) {
+  return service.methods.length > 0 || service.events.length > 0;
+}
+
+/** Contract versions of the message handlers, in ascending order. Empty if none of them is versioned */
+export function getContractVersions(methods: MethodInfo[]) {
+  if (!methods.some((info) => R.isDefined(info.version))) return [];
+  return R.unique(
+    methods
+      .filter((info) => !info.isEventHandler)
+      .map((info) => info.version ?? 1)
+  ).sort((a, b) => a - b);
+}
+
+/** Handlers of a contract version, by default the latest: event handlers, and the latest version of each message handler up to it. Every handler if none is versioned */
+export function getVersionMethods(methods: MethodInfo[], version?: number) {
+  const versions = getContractVersions(methods);
+  if (versions.length == 0) return methods;
+
+  const upTo = version ?? versions[versions.length - 1];
+  const selected = R.pipe(
+    methods,
+    R.filter((info) => !info.isEventHandler && (info.version ?? 1) <= upTo),
+    R.groupBy(R.prop("clientMethodName")),
+    R.values(),
+    R.map((group) => R.firstBy(group, [(info) => info.version ?? 1, "desc"]))
+  );
+  return methods.filter(
+    (info) => info.isEventHandler || selected.includes(info)
+  );
+}
+
+/** Key of a contract version, e.g. the `v1` of `users.v1` in the pattern map and of the `v1` property of proxies */
+export function getVersionKey(version: number) {
+  return `v${version}`;
+}
+
+/** Overload signatures of a handler, or the handler itself if it has none */
+function getSignatures(method: MethodDeclaration) {
+  const overloads = method.getOverloads();
+  return overloads.length > 0 ? overloads : [method];
+}
+
+export function hasPayload(info: MethodInfo) {
+  return info.payloadParams.length > 0;
+}
+
+/** Payload parameters of a signature of the handler. Overloads may omit some of them */
+export function getPayloadParameters(
+  signature: MethodDeclaration,
+  info: MethodInfo
+) {
+  return info.payloadParams
+    .map(({ index, key }) => ({ key, param: signature.getParameters()[index] }))
+    .filter(({ param }) => R.isDefined(param));
+}
+
+/** Payload type of a signature: the types of the parameters receiving the whole payload, intersected with an object of the parameters receiving a property of it */
+function printPayloadType(
+  signature: MethodDeclaration,
+  info: MethodInfo,
+  printType: (type: Type) => string
+) {
+  const params = getPayloadParameters(signature, info);
+  if (params.length == 0) return;
+
+  const [keyed, whole] = R.partition(params, ({ key }) => R.isDefined(key));
+  const properties = keyed.map(
+    ({ key, param }) =>
+      `${printPropertyName(key)}${param.isOptional() ? "?" : ""}: ${printType(
+        param.getType()
+      )};`
+  );
+  const types = [
+    ...whole.map(({ param }) => printType(param.getType())),
+    ...(properties.length > 0 ? [`{ ${properties.join(" ")} }`] : []),
+  ];
+  return {
+    type: types.length > 1 ? types.map((t) => `(${t})`).join(" & ") : types[0],
+    isOptional: params.every(({ param }) => param.isOptional()),
+  };
+}
+
+function generateMsgProxyMethods(printer: TypePrinter, info: MethodInfo) {
+  const { isStreaming } = info;
+
+  return getSignatures(info.method).map((signature) => {
+    const typeParams = printer.printTypeParameters(
+      signature.getTypeParameters()
+    );
+    const payload = printPayloadType(signature, info, printer.print);
+    const args = payload
+      ? `payload${payload.isOptional ? "?" : ""}: ${payload.type}, `
+      : "";
+    const reply = printer.print(getReplyType(signature.getReturnType()));
+    const returnType = isStreaming
+      ? `Observable<${reply}>`
+      : `Promise<${reply}>`;
+    return `${info.clientMethodName}${typeParams}(${args}options?: Options): ${returnType};`;
+  });
+}
+
+/** Reply types of message methods, which type the `resolves()` and `emits()` helpers of mocks. Replies of generic handlers are unknown */
+function generateReplyTypes(printer: TypePrinter, msgs: MethodInfo[]) {
+  return msgs.map((info) => {
+    const replies = getSignatures(info.method).map((signature) =>
+      signature.getTypeParameters().length > 0
+        ? "unknown"
+        : printer.print(getReplyType(signature.getReturnType()))
+    );
+    return `${info.clientMethodName}: ${R.unique(replies).join(" | ")};`;
+  });
+}
+
+/** Payload type of an event handler. Type parameters are replaced by their constraints, emit methods aren't generic */
+function getEventPayloadType(printer: TypePrinter, info: MethodInfo) {
+  const printType = (type: Type) => {
+    const payloadType = type.isTypeParameter()
+      ? type.getConstraint() ?? type.getDefault()
+      : type;
+    return payloadType ? printer.print(payloadType) : "unknown";
+  };
+  const types = getSignatures(info.method).map(
+    (signature) =>
+      printPayloadType(signature, info, printType)?.type ?? "undefined"
+  );
+  const union = R.unique(types).join(" | ");
+  return types.length > 1 ? `(${union})` : union;
+}
+
+/** Events of a service with the printed intersection of the payload types of their handlers and declarations, empty if there is no payload */
+function getEmittedEvents(
+  printer: TypePrinter,
+  eventInfos: MethodInfo[],
+  declaredEvents: EventDeclaration[]
+) {
+  const payloads = [
+    ...eventInfos.map((info) => ({
+      ...R.pick(info, ["clientMethodName", "patternValue"]),
+      payloadType: hasPayload(info) ? getEventPayloadType(printer, info) : "",
+    })),
+    ...declaredEvents.map((event) => ({
+      ...R.pick(event, ["clientMethodName", "patternValue"]),
+      payloadType: event.payloadType ? printer.print(event.payloadType) : "",
+    })),
+  ];
+
+  return R.pipe(
+    payloads,
+    R.groupBy(R.prop("clientMethodName")),
+    R.values(),
+    R.map((group) => ({
+      clientMethodName: group[0].clientMethodName,
+      patternValue: group[0].patternValue,
+      payloadType: R.unique(group.map(R.prop("payloadType")))
+        .filter(Boolean)
+        .join(" & "),
+    }))
+  );
+}
+
+function generateEventProxyMethods(events: EmittedEvent[]) {
+  return events.map(({ clientMethodName, payloadType }) => {
+    const args = payloadType ? `payload: ${payloadType}, ` : "";
+    return `${clientMethodName}(${args}options?: Options): Observable<unknown>;`;
+  });
+}
+
+/** Payload types by event pattern, for typing the handlers of subscribers */
+function generateEventTypes(events: EmittedEvent[]) {
+  return events.map(
+    ({ patternValue, payloadType }) =>
+      `${JSON.stringify(patternValue)}: ${payloadType || "void"};`
+  );
+}
+
+type EmittedEvent = ReturnType<typeof getEmittedEvents>[number];
+
+export function getProxyFilePath(
+  config: GeneratorConfig,
+  modulePath: string,
+  serviceName: string
+) {
+  const outDir = config.proxiesDir ?? path.dirname(modulePath);
+  return path.join(outDir, `${R.toKebabCase(serviceName)}.proxy.generated.ts`);
+}
+
+export function renderProxyFile(
+  config: GeneratorConfig,
+  serviceName: string,
+  methods: MethodInfo[],
+  declaredEvents: EventDeclaration[] = []
+) {
+  const proxyName = `${serviceName}Proxy`;
+  const versions = getContractVersions(methods).map((version) => ({
+    key: getVersionKey(version),
+    proxyName: `${serviceName}V${version}Proxy`,
+    msgs: getVersionMethods(methods, version).filter((m) => !m.isEventHandler),
+  }));
+  const printer = createTypePrinter(
+    config.root,
+    (methods[0]?.method ?? declaredEvents[0].node).getProject(),
+    {
+      standalone: config.standaloneTypes,
+      reservedNames: [
+        ...[proxyName, ...versions.map((v) => v.proxyName)].flatMap((name) => [
+          name,
+          `${name}Replies`,
+        ]),
+        `${proxyName}Events`,
+        "Observable",
+        "Options",
+        "CallOptions",
+      ],
+    }
+  );
+  const transport = getServiceTransport(config, serviceName);
+  const events = getEmittedEvents(
+    printer,
+    methods.filter((m) => m.isEventHandler),
+    declaredEvents
+  );
+
+  // Proxies of versions are properties of the proxy of the latest version, e.g. `users.v1`
+  const renderProxy = (
+    name: string,
+    msgs: MethodInfo[],
+    nested: typeof versions = []
+  ) => {
+    const proxyMethods = [
+      ...msgs.flatMap((info) => generateMsgProxyMethods(printer, info)),
+      ...generateEventProxyMethods(events),
+      ...nested.map((version) => `${version.key}: ${version.proxyName};`),
+    ];
+    const replies = config.mocks
+      ? `export interface ${name}Replies {
+          ${[
+            ...generateReplyTypes(printer, msgs),
+            ...nested.map(
+              (version) => `${version.key}: ${version.proxyName}Replies;`
+            ),
+          ].join("\n")}
+        }`
+      : "";
+    return `export interface ${name} {
+        ${proxyMethods.join("\n")}
+      }
+
+      ${replies}`;
+  };
+  const proxies = [
+    renderProxy(
+      proxyName,
+      getVersionMethods(methods).filter((m) => !m.isEventHandler),
+      versions
+    ),
+    ...versions.map((version) => renderProxy(version.proxyName, version.msgs)),
+  ];
+  const eventTypes =
+    events.length > 0
+      ? `export interface ${proxyName}Events {
+          ${generateEventTypes(events).join("\n")}
+        }`
+      : "";
+
+  return `
+    import type { Observable } from 'rxjs';
+    ${
+      transport
+        ? `import type { Options as CallOptions } from '${config.clientImport}';
+
+          type Options = CallOptions<"${transport}">;`
+        : `import type { Options } from '${config.clientImport}';`
+    }
+
+    ${proxies.join("\n\n")}
+
+    ${eventTypes}
+
+    ${printer.renderDeclarations().join("\n\n")}`;
+}
+
+export function getMockFilePath(
+  config: GeneratorConfig,
+  modulePath: string,
+  serviceName: string
+) {
+  return getProxyFilePath(config, modulePath, serviceName).replace(
+    /\.proxy\.generated\.ts$/,
+    ".proxy.mock.generated.ts"
+  );
+}
+
+/** Mock factory of a proxy, next to its proxy file */
+export function renderMockFile(
+  config: GeneratorConfig,
+  modulePath: string,
+  serviceName: string,
+  methods: MethodInfo[],
+  declaredEvents: EventDeclaration[] = []
+) {
+  const proxyName = `${serviceName}Proxy`;
+  const proxyFile = getProxyFilePath(config, modulePath, serviceName);
+  const getKinds = (infos: MethodInfo[]) =>
+    R.pipe(
+      [
+        ...infos.map(
+          (info) =>
+            [
+              info.clientMethodName,
+              info.isEventHandler || info.isStreaming
+                ? "observable"
+                : "promise",
+            ] as const
+        ),
+        ...declaredEvents.map(
+          (event) => [event.clientMethodName, "observable"] as const
+        ),
+      ],
+      R.fromEntries()
+    );
+  // Mocks of versions are properties of the mock, like proxies of versions
+  const kinds = {
+    ...getKinds(getVersionMethods(methods)),
+    ...R.fromEntries(
+      getContractVersions(methods).map(
+        (version) =>
+          [
+            getVersionKey(version),
+            getKinds(getVersionMethods(methods, version)),
+          ] as const
+      )
+    ),
+  };
+
+  return `
+    import { createProxyMock, type ProxyMock, type ProxyMockOptions } from '${
+      config.clientImport
+    }';
+    import type { ${proxyName}, ${proxyName}Replies } from './${path.basename(
+    proxyFile,
+    ".ts"
+  )}';
+
+    export type ${proxyName}Mock = ProxyMock<${proxyName}, ${proxyName}Replies>;
+
+    export function create${proxyName}Mock(options?: ProxyMockOptions): ${proxyName}Mock {
+      return createProxyMock('${R.uncapitalize(serviceName)}', ${JSON.stringify(
+    kinds
+  )}, options);
+    }`;
+}
+
+/** Entries of the pattern map of a service: its latest version, and each version under its own key, e.g. `users.v1` */
+function getPatternMapEntries(service: ServiceManifest) {
+  const key = R.uncapitalize(service.serviceName);
+  return [
+    { key, methods: getVersionMethods(service.methods) },
+    ...getContractVersions(service.methods).map((version) => ({
+      key: `${key}.${getVersionKey(version)}`,
+      methods: getVersionMethods(service.methods, version),
+    })),
+  ].map(({ key, methods }) => ({ key, methods, events: service.events }));
+}
+
+export function renderPatternsFile(services: ServiceManifest[]) {
+  const patternMap = R.pipe(
+    services,
+    R.filter(hasClientMethods),
+    R.flatMap(getPatternMapEntries),
+    R.map(({ key, methods, events }) => {
+      const patterns = R.pipe(
+        [
+          ...methods.map((info) => ({
+            name: info.clientMethodName,
+            pattern: info.pattern,
+            hasPayload: hasPayload(info),
+            kind: getMethodKind(info),
+          })),
+          ...events.map((event) => ({
+            name: event.clientMethodName,
+            pattern: event.pattern,
+            hasPayload: R.isDefined(event.payloadType),
+            kind: "event" as MethodKind,
+          })),
+        ],
+        // Handlers and declarations of the same event share the emit method
+        R.groupBy(R.prop("name")),
+        R.values(),
+        R.map((group) => {
+          const { name, pattern, kind } = group[0];
+          const hasPayload = group.some(R.prop("hasPayload"));
+          return `${name}: [(${pattern}), ${hasPayload}, "${kind}"]`;
+        })
+      );
+      return `${printPropertyName(key)}: {${patterns}}`;
+    }),
+    R.join(",")
+  );
+
+  return `
+    import type { Observable } from 'rxjs';
+    export const patternMap = {${patternMap}} as const;
+    `;
+}
+
+export async function formatFile(filePath: string, content: string) {
+  const prettierConfig = await prettier.resolveConfig(filePath);
+  // Parser is inferred from the file extension
+  return prettier.format(content, { ...prettierConfig, filepath: filePath });
+}
+
+/** Writes the file only if its content differs, so watchers of the output don't rebuild needlessly. Returns whether it was written */
+export async function writeIfChanged(filePath: string, content: string) {
+  const current = await fs.readFile(filePath, "utf8").catch(() => undefined);
+  if (current === content) return false;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+  return true;
+}
+
+/** Events declared by every service with `@EmitsEvent` or in the events file */
+export async function extractWorkspaceEvents(
+  project: Project,
+  config: GeneratorConfig,
+  mainModulePaths: string[]
+) {
+  const events: EventDeclaration[] = [];
+  for (const modulePath of mainModulePaths) {
+    const serviceName = getServiceName(modulePath, config.conventions);
+    const controllerPaths = await findControllers(config, modulePath);
+    events.push(
+      ...extractDeclaredEvents(
+        project,
+        config,
+        modulePath,
+        serviceName,
+        controllerPaths
+      ).events
+    );
+  }
+  return events;
+}
+
+export async function extractService(
+  project: Project,
+  config: GeneratorConfig,
+  modulePath: string,
+  /** Declared events of the workspace, see `extractWorkspaceEvents` */
+  workspaceEvents: EventDeclaration[] = []
+): Promise<ServiceManifest> {
+  const serviceName = getServiceName(modulePath, config.conventions);
+  const controllerPaths = await findControllers(config, modulePath);
+  const subscribableEvents = workspaceEvents.filter(
+    (event) => event.serviceName != serviceName
+  );
+  const { methods, subscriptions, diagnostics } = extractMethods(
+    project,
+    serviceName,
+    controllerPaths,
+    { ...config, subscribableEvents }
+  );
+  const declared = extractDeclaredEvents(
+    project,
+    config,
+    modulePath,
+    serviceName,
+    controllerPaths
+  );
+  return {
+    serviceName,
+    modulePath,
+    controllerPaths,
+    methods,
+    events: declared.events,
+    transport: getServiceTransport(config, serviceName),
+    diagnostics: [
+      ...diagnostics,
+      ...declared.diagnostics,
+      ...checkEventPayloads(methods, declared.events),
+      ...checkEventPayloads(
+        subscriptions,
+        subscribableEvents.filter((event) =>
+          subscriptions.some((info) => info.patternValue === event.patternValue)
+        )
+      ),
+    ],
+  };
+}
+
+/** Extracts the handlers of every service in the workspace. Nothing is written or printed */
+export async function extractServices(
+  options: ExtractOptions = {}
+): Promise<ServiceManifest[]> {
+  const config = resolveConfig(options);
+  const mainModulePaths = await findMainModules(config);
+  const project =
+    options.project ?? (await createProject(config, mainModulePaths));
+  const duplicateServiceDiagnostics = checkDuplicateServices(
+    mainModulePaths,
+    config.conventions
+  );
+
+  const workspaceEvents = await extractWorkspaceEvents(
+    project,
+    config,
+    mainModulePaths
+  );
+  const services: ServiceManifest[] = [];
+  for (const modulePath of mainModulePaths) {
+    const service = await extractService(
+      project,
+      config,
+      modulePath,
+      workspaceEvents
+    );
+    service.diagnostics.push(
+      ...duplicateServiceDiagnostics.filter(
+        (d) => d.location.file === modulePath
+      )
+    );
+    services.push(service);
+  }
+
+  // Diagnostics of the events file don't belong to a single service
+  services[0]?.diagnostics.push(
+    ...checkEventsFile(project, config, mainModulePaths)
+  );
+
+  return services;
+}
+
+/** Renders and formats the proxy interfaces, the pattern map and, if configured, the manifest and payload schemas of the services. Returns the content by output path, nothing is written */
+export async function generateClients(
+  services: ServiceManifest[],
+  options: UserConfig = {}
+) {
+  const config = resolveConfig(options);
+  const files = new Map<string, string>();
+
+  for (const service of services) {
+    if (!hasClientMethods(service)) continue;
+
+    const { serviceName, modulePath, methods, events } = service;
+    const outFile = getProxyFilePath(config, modulePath, serviceName);
+    const fileContent = renderProxyFile(config, serviceName, methods, events);
+    files.set(outFile, await formatFile(outFile, fileContent));
+
+    if (config.mocks) {
+      const mockFile = getMockFilePath(config, modulePath, serviceName);
+      const mockContent = renderMockFile(
+        config,
+        modulePath,
+        serviceName,
+        methods,
+        events
+      );
+      files.set(mockFile, await formatFile(mockFile, mockContent));
+    }
+  }
+
+  const patternsFile = config.patternsFile;
+  files.set(
+    patternsFile,
+    await formatFile(patternsFile, renderPatternsFile(services))
+  );
+
+  if (config.manifestFile) {
+    const manifest = renderManifestFile(services, config.root);
+    files.set(
+      config.manifestFile,
+      await formatFile(config.manifestFile, manifest)
+    );
+  }
+
+  if (config.validatorsFile) {
+    const validators = renderValidatorsFile(
+      config,
+      config.validatorsFile,
+      services
+    );
+    files.set(
+      config.validatorsFile,
+      await formatFile(config.validatorsFile, validators)
+    );
+  }
+
+  for (const [file, document] of renderAsyncApiFiles(config, services)) {
+    files.set(file, await formatFile(file, document));
+  }
+
+  return files;
+}
@@ -0,0 +1,100 @@
+import "reflect-metadata";
+import { Controller, type INestMicroservice, Module } from "@nestjs/common";
+import { NestFactory } from "@nestjs/core";
+import {
+  Ctx,
+  EventPattern,
+  MessagePattern,
+  Payload,
+  RpcException,
+} from "@nestjs/microservices";
+import { lastValueFrom, of, toArray } from "rxjs";
+import {
+  InProcessClient,
+  InProcessContext,
+  InProcessServer,
+} from "./in-process.transport";
+
+const createdUsers: unknown[] = [];
+
+@Controller()
+class UsersController {
+  @MessagePattern("users.get")
+  getUser(@Payload() id: number, @Ctx() context: InProcessContext) {
+    return { id, pattern: context.getPattern(), createdAt: new Date(0) };
+  }
+
+  @MessagePattern("users.list")
+  listUsers() {
+    return of({ id: 1 }, { id: 2 }, { id: 3 });
+  }
+
+  @MessagePattern("users.fail")
+  fail() {
+    throw new RpcException({ code: "NOT_FOUND", message: "User not found" });
+  }
+
+  @EventPattern("users.user-created")
+  async onUserCreated(@Payload() user: unknown) {
+    createdUsers.push(user);
+  }
+}
+
+@Module({ controllers: [UsersController] })
+class UsersModule {}
+
+describe("in-process transport", () => {
+  let app: INestMicroservice;
+  let client: InProcessClient;
+
+  beforeAll(async () => {
+    const server = new InProcessServer();
+    app = await NestFactory.createMicroservice(UsersModule, {
+      strategy: server,
+      logger: false,
+    });
+    await app.listen();
+    client = new InProcessClient(server);
+  });
+
+  afterAll(() => app.close());
+
+  it("replies to messages like over the network", async () => {
+    await expect(lastValueFrom(client.send("users.get", 1))).resolves.toEqual({
+      id: 1,
+      pattern: "users.get",
+      // Replies are serialized, dates arrive as strings
+      createdAt: "1970-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("streams every value of an observable reply", async () => {
+    await expect(
+      lastValueFrom(client.send("users.list", {}).pipe(toArray()))
+    ).resolves.toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+  });
+
+  it("runs the event handlers before emitting resolves", async () => {
+    await lastValueFrom(
+      client.emit("users.user-created", { id: 4, name: "Ada" }),
+      { defaultValue: undefined }
+    );
+
+    expect(createdUsers).toEqual([{ id: 4, name: "Ada" }]);
+  });
+
+  it("propagates errors of handlers to the caller", async () => {
+    await expect(lastValueFrom(client.send("users.fail", {}))).rejects.toEqual({
+      code: "NOT_FOUND",
+      message: "User not found",
+    });
+  });
+
+  it("fails messages without a handler", async () => {
+    await expect(
+      lastValueFrom(client.send("users.missing", {}))
+    ).rejects.toEqual(
+      expect.stringContaining("There is no matching message handler")
+    );
+  });
+});
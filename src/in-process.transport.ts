@@ -0,0 +1,136 @@
+import {
+  BaseRpcContext,
+  ClientProxy,
+  CustomTransportStrategy,
+  IncomingRequest,
+  ReadPacket,
+  Server,
+  WritePacket,
+} from "@nestjs/microservices";
+import { NO_MESSAGE_HANDLER } from "@nestjs/microservices/constants";
+
+/** Packets are serialized like on the network, handlers and callers only see plain JSON */
+function overTheWire<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+export class InProcessContext extends BaseRpcContext<[pattern: string]> {
+  getPattern() {
+    return this.args[0];
+  }
+}
+
+/**
+ * Transport strategy that receives messages from `InProcessClient`s instead of the network.
+ * Handlers still run through the pipes, guards, interceptors and exception filters of the application.
+ *
+ * @example
+ * const users = new InProcessServer();
+ * const app = await NestFactory.createMicroservice(UsersModule, { strategy: users });
+ * await app.listen();
+ * const proxy = createClientProxy("users", USERS, new InProcessClient(users));
+ */
+export class InProcessServer extends Server implements CustomTransportStrategy {
+  readonly transportId = Symbol("IN_PROCESS");
+
+  constructor() {
+    super();
+    this.initializeSerializer({});
+    this.initializeDeserializer({});
+  }
+
+  listen(callback: () => void) {
+    callback();
+  }
+
+  close() {}
+
+  on() {
+    throw new Error("InProcessServer does not emit events");
+  }
+
+  unwrap<T>(): T {
+    throw new Error("InProcessServer has no underlying server");
+  }
+
+  /** Handles a serialized packet like `ServerTCP` does with incoming messages, replies are passed to `respond` */
+  async dispatch(rawPacket: unknown, respond: (packet: unknown) => void) {
+    const packet = (await this.deserializer.deserialize(
+      overTheWire(rawPacket)
+    )) as IncomingRequest;
+    const pattern = this.getPatternAsString(packet.pattern);
+    const context = new InProcessContext([pattern]);
+
+    if (packet.id === undefined) {
+      return this.handleEvent(pattern, packet, context);
+    }
+
+    const handler = this.getHandlerByPattern(pattern);
+    if (!handler) {
+      const status = "error";
+      const noHandlerPacket = {
+        id: packet.id,
+        status,
+        err: NO_MESSAGE_HANDLER,
+      };
+      return respond(this.serializer.serialize(noHandlerPacket));
+    }
+
+    return this.onProcessingStartHook(this.transportId, context, async () => {
+      const response$ = this.transformToObservable(
+        await handler(packet.data, context)
+      );
+      response$ &&
+        this.send(response$, (data) => {
+          this.onProcessingEndHook?.(this.transportId, context);
+          respond(
+            overTheWire(this.serializer.serialize({ ...data, id: packet.id }))
+          );
+        });
+    });
+  }
+}
+
+/** Client that sends messages and events to an `InProcessServer` of the same process, without the network */
+export class InProcessClient extends ClientProxy {
+  constructor(private readonly server: InProcessServer) {
+    super();
+    this.initializeSerializer({});
+    this.initializeDeserializer({});
+  }
+
+  async connect() {}
+
+  async close() {}
+
+  unwrap<T>(): T {
+    return this.server as T;
+  }
+
+  protected publish(
+    partialPacket: ReadPacket,
+    callback: (packet: WritePacket) => void
+  ) {
+    const packet = this.serializer.serialize(
+      this.assignPacketId(partialPacket)
+    );
+    let isSubscribed = true;
+    const respond = async (response: unknown) => {
+      if (!isSubscribed) return;
+      callback(await this.deserializer.deserialize(response));
+    };
+
+    this.server.dispatch(packet, respond).catch((err) => {
+      if (isSubscribed) callback({ err });
+    });
+    return () => {
+      isSubscribed = false;
+    };
+  }
+
+  /** Resolves once the event handlers are done, so tests don't need to wait for them */
+  protected async dispatchEvent<T>(packet: ReadPacket): Promise<T> {
+    await this.server.dispatch(this.serializer.serialize(packet), () => {});
+    return undefined as T;
+  }
+}
@@ -0,0 +1,46 @@
+export type {
+  GeneratorConfig,
+  Target,
+  TransportName,
+  UserConfig,
+} from "./config";
+export { defineConfig, loadConfig, resolveConfig } from "./config";
+export type { ClientMethodSource, Conventions } from "./conventions";
+export { defaultConventions } from "./conventions";
+export type {
+  Diagnostic,
+  DiagnosticFormat,
+  DiagnosticLocation,
+  Rule,
+  Severity,
+} from "./diagnostics";
+export { formatDiagnostics, hasErrors, rules } from "./diagnostics";
+export type { ExtractOptions, MethodInfo, ServiceManifest } from "./generator";
+export type { EventDeclaration } from "./events";
+export { extractServices, generateClients, writeIfChanged } from "./generator";
+export { findOrphanedFiles, findStaleFiles } from "./check";
+export type {
+  ContractManifest,
+  DeclaredEventContract,
+  HandlerContract,
+  ServiceContract,
+} from "./manifest";
+export { buildManifest } from "./manifest";
+export type { AsyncApiDocument } from "./asyncapi";
+export { buildAsyncApi } from "./asyncapi";
+export type { JsonSchema, ValidationIssue } from "./json-schema";
+export { PayloadValidationError, validateSchema } from "./json-schema";
+export { typeToSchema } from "./type-schema";
+export { diffManifests, loadBaseline, loadCurrent } from "./contract-diff";
+export type {
+  CallGraph,
+  CallSite,
+  ServiceCall,
+  ServiceCycle,
+  UnusedHandler,
+} from "./call-graph";
+export {
+  buildCallGraph,
+  extractCallGraph,
+  renderCallGraph,
+} from "./call-graph";
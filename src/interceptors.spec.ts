@@ -0,0 +1,93 @@
+import { lastValueFrom, map, of } from "rxjs";
+import {
+  runInterceptors,
+  type ClientCallContext,
+  type ClientInterceptor,
+} from "./interceptors";
+
+const createContext = (): ClientCallContext => ({
+  serviceName: "users",
+  methodName: "getUser",
+  kind: "message",
+  pattern: "users.get",
+  payload: { id: 1 },
+  options: {},
+});
+
+describe("runInterceptors", () => {
+  it("runs the interceptors in order, the first one being the outermost", async () => {
+    const calls: string[] = [];
+    const record = (name: string): ClientInterceptor => ({
+      intercept(_context, next) {
+        calls.push(`${name} before`);
+        return next.handle().pipe(
+          map((reply) => {
+            calls.push(`${name} after`);
+            return reply;
+          })
+        );
+      },
+    });
+    const send = jest.fn(() => {
+      calls.push("send");
+      return of("reply");
+    });
+
+    await expect(
+      lastValueFrom(
+        runInterceptors(
+          [record("first"), record("second")],
+          createContext(),
+          send
+        )
+      )
+    ).resolves.toBe("reply");
+    expect(calls).toEqual([
+      "first before",
+      "second before",
+      "send",
+      "second after",
+      "first after",
+    ]);
+  });
+
+  it("sends the payload set by the interceptors", async () => {
+    const context = createContext();
+    const correlationId: ClientInterceptor = {
+      intercept(context, next) {
+        context.payload = {
+          ...(context.payload as object),
+          correlationId: "42",
+        };
+        return next.handle();
+      },
+    };
+    const send = jest.fn(() => of(context.payload));
+
+    await expect(
+      lastValueFrom(runInterceptors([correlationId], context, send))
+    ).resolves.toEqual({ id: 1, correlationId: "42" });
+  });
+
+  it("lets interceptors reply without sending", async () => {
+    const cached: ClientInterceptor = {
+      intercept: () => of("cached"),
+    };
+    const send = jest.fn(() => of("reply"));
+
+    await expect(
+      lastValueFrom(runInterceptors([cached], createContext(), send))
+    ).resolves.toBe("cached");
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("only sends once subscribed", async () => {
+    const send = jest.fn(() => of("reply"));
+
+    const reply$ = runInterceptors([], createContext(), send);
+    expect(send).not.toHaveBeenCalled();
+
+    await expect(lastValueFrom(reply$)).resolves.toBe("reply");
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
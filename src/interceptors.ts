@@ -0,0 +1,50 @@
+import { Observable, defer } from "rxjs";
+import type { Options } from "./client.service";
+
+export interface ClientCallContext {
+  serviceName: string;
+  /** Method of the proxy that was called, e.g. `getUser` or `emitUserCreated` */
+  methodName: string;
+  kind: "message" | "event";
+  pattern: unknown;
+  /** Payload that is sent. Interceptors may replace it before calling `next.handle()` */
+  payload: unknown;
+  options: Options;
+}
+
+export interface ClientCallHandler {
+  /** Continues with the next interceptor, or sends the message with the payload of the context */
+  handle(): Observable<unknown>;
+}
+
+/**
+ * Intercepts outgoing messages and events, like Nest interceptors do for incoming ones.
+ *
+ * @example
+ * const correlationId: ClientInterceptor = {
+ *   intercept(context, next) {
+ *     context.payload = { ...context.payload, correlationId: randomUUID() };
+ *     return next.handle();
+ *   },
+ * };
+ */
+export interface ClientInterceptor {
+  intercept(
+    context: ClientCallContext,
+    next: ClientCallHandler
+  ): Observable<unknown>;
+}
+
+/** Runs the interceptors in order, the first one is the outermost */
+export function runInterceptors(
+  interceptors: ClientInterceptor[],
+  context: ClientCallContext,
+  send: () => Observable<unknown>
+) {
+  const handle = interceptors.reduceRight<() => Observable<unknown>>(
+    (next, interceptor) => () =>
+      defer(() => interceptor.intercept(context, { handle: next })),
+    () => defer(send)
+  );
+  return handle();
+}
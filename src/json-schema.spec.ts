@@ -0,0 +1,170 @@
+import {
+  PayloadValidationError,
+  assertValidPayload,
+  pickPropertySchema,
+  validateSchema,
+  type JsonSchema,
+} from "./json-schema";
+
+const address: JsonSchema = {
+  type: "object",
+  properties: {
+    street: { type: "string" },
+    lines: { type: "array", items: { type: "string" } },
+  },
+  required: ["street"],
+};
+
+describe("validateSchema", () => {
+  it("reports the path of every invalid value", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      properties: {
+        id: { type: "integer" },
+        address,
+        point: {
+          type: "array",
+          prefixItems: [{ type: "number" }, { type: "number" }],
+          minItems: 2,
+          maxItems: 2,
+        },
+      },
+      required: ["id", "address"],
+    };
+
+    expect(
+      validateSchema(schema, {
+        id: 1.5,
+        address: { lines: ["a", 2] },
+        point: [1, "2"],
+      })
+    ).toEqual([
+      { path: "id", message: "must be integer" },
+      { path: "address.street", message: "is required" },
+      { path: "address.lines[1]", message: "must be string" },
+      { path: "point[1]", message: "must be number" },
+    ]);
+    expect(validateSchema(schema, { id: 1, address, point: [1] })).toEqual([
+      { path: "address.street", message: "is required" },
+      { path: "point", message: "must have 2 items" },
+    ]);
+    expect(validateSchema(schema, "id")).toEqual([
+      { path: "", message: "must be object" },
+    ]);
+  });
+
+  it("reports values outside of consts and enums", () => {
+    expect(validateSchema({ const: "admin" }, "user")).toEqual([
+      { path: "", message: 'must be "admin"' },
+    ]);
+    expect(validateSchema({ enum: [1, 2] }, 3)).toEqual([
+      { path: "", message: "must be one of 1, 2" },
+    ]);
+    expect(validateSchema({ not: { type: "null" } }, null)).toEqual([
+      { path: "", message: "is not allowed" },
+    ]);
+  });
+
+  it("reports the closest member of an anyOf", () => {
+    const schema: JsonSchema = {
+      anyOf: [
+        {
+          type: "object",
+          properties: { kind: { const: "user" }, name: { type: "string" } },
+          required: ["kind", "name"],
+        },
+        {
+          type: "object",
+          properties: { kind: { const: "group" }, members: { type: "array" } },
+          required: ["kind", "members"],
+        },
+      ],
+    };
+
+    expect(validateSchema(schema, { kind: "user", name: "Ada" })).toEqual([]);
+    expect(validateSchema(schema, { kind: "group", members: 1 })).toEqual([
+      { path: "members", message: "must be array" },
+    ]);
+  });
+
+  it("reports the issues of every member of an allOf", () => {
+    const schema: JsonSchema = {
+      allOf: [
+        { type: "object", properties: { id: { type: "number" } } },
+        { type: "object", required: ["name"] },
+      ],
+    };
+
+    expect(validateSchema(schema, { id: "1" })).toEqual([
+      { path: "id", message: "must be number" },
+      { path: "name", message: "is required" },
+    ]);
+  });
+
+  it("resolves $refs against the closest $defs", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      properties: {
+        home: { $ref: "#/$defs/Address" },
+        work: { $ref: "#/$defs/Address" },
+      },
+      $defs: { Address: address },
+    };
+
+    expect(
+      validateSchema(schema, { home: { street: "Main" }, work: { street: 1 } })
+    ).toEqual([{ path: "work.street", message: "must be string" }]);
+  });
+
+  it("accepts dates for date-time strings and undefined for null", () => {
+    expect(
+      validateSchema({ type: "string", format: "date-time" }, new Date())
+    ).toEqual([]);
+    expect(validateSchema({ type: "null" }, undefined)).toEqual([]);
+  });
+});
+
+describe("assertValidPayload", () => {
+  it("throws the issues with the method", () => {
+    expect(() => assertValidPayload("getUser", address, {})).toThrow(
+      new PayloadValidationError("getUser", [
+        { path: "street", message: "is required" },
+      ])
+    );
+    expect(() => assertValidPayload("getUser", address, {})).toThrow(
+      'Invalid payload for "getUser": street is required'
+    );
+  });
+});
+
+describe("pickPropertySchema", () => {
+  const schema: JsonSchema = {
+    allOf: [
+      { $ref: "#/$defs/Address" },
+      {
+        anyOf: [
+          { type: "object", properties: { zip: { type: "string" } } },
+          { type: "null" },
+        ],
+      },
+    ],
+    $defs: { Address: address },
+  };
+
+  it("validates a property on its own", () => {
+    const street = pickPropertySchema(schema, "street");
+    const zip = pickPropertySchema(schema, "zip");
+
+    expect(validateSchema(street, { street: "Main" })).toEqual([]);
+    expect(validateSchema(street, { street: 1 })).toEqual([
+      { path: "street", message: "must be string" },
+    ]);
+    expect(validateSchema(street, { street: undefined })).toEqual([
+      { path: "street", message: "is required" },
+    ]);
+    expect(validateSchema(zip, { zip: undefined })).toEqual([]);
+    expect(validateSchema(zip, { zip: 1 })).toEqual([
+      { path: "zip", message: "must be string" },
+    ]);
+  });
+});
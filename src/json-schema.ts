@@ -0,0 +1,222 @@
+export interface JsonSchema {
+  type?: string;
+  const?: unknown;
+  enum?: unknown[];
+  format?: string;
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  not?: JsonSchema;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+}
+
+export interface ValidationIssue {
+  /** Path of the invalid value, e.g. `address.lines[1]`. Empty for the payload itself */
+  path: string;
+  message: string;
+}
+
+export class PayloadValidationError extends Error {
+  constructor(readonly method: string, readonly issues: ValidationIssue[]) {
+    super(
+      `Invalid payload for "${method}": ${issues
+        .map((issue) => `${issue.path || "payload"} ${issue.message}`)
+        .join("; ")}`
+    );
+    this.name = "PayloadValidationError";
+  }
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a != "object" || typeof b != "object" || !a || !b) return false;
+  const keys = Object.keys(a);
+  return (
+    keys.length == Object.keys(b).length &&
+    keys.every((key) =>
+      isDeepEqual(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key]
+      )
+    )
+  );
+}
+
+function hasType(type: string, format: string | undefined, value: unknown) {
+  switch (type) {
+    case "null":
+      // undefined is dropped by JSON serialization, same as void results
+      return value === null || value === undefined;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value == "object" && !!value && !Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value == "number" && Number.isFinite(value);
+    case "string":
+      // Dates are serialized as strings
+      return (
+        typeof value == "string" ||
+        (format == "date-time" && value instanceof Date)
+      );
+    default:
+      return typeof value == type;
+  }
+}
+
+const childPath = (parent: string, key: string | number) =>
+  typeof key == "number"
+    ? `${parent}[${key}]`
+    : parent
+    ? `${parent}.${key}`
+    : key;
+
+/**
+ * Validates a value against the subset of JSON Schema generated from payload types.
+ * `$ref`s are resolved against the `$defs` of the closest schema that has them.
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  at = "",
+  defs: Record<string, JsonSchema> = {}
+): ValidationIssue[] {
+  defs = schema.$defs ?? defs;
+  const recurse = (s: JsonSchema, v: unknown, path = at) =>
+    validateSchema(s, v, path, defs);
+
+  if (schema.$ref) {
+    const resolved = defs[schema.$ref.replace("#/$defs/", "")];
+    return resolved ? recurse(resolved, value) : [];
+  }
+
+  if (schema.not && recurse(schema.not, value).length == 0) {
+    return [{ path: at, message: "is not allowed" }];
+  }
+
+  if (schema.allOf) {
+    const issues = schema.allOf.flatMap((member) => recurse(member, value));
+    if (issues.length > 0) return issues;
+  }
+
+  if (schema.anyOf) {
+    const results = schema.anyOf.map((member) => recurse(member, value));
+    if (results.every((issues) => issues.length > 0)) {
+      // Report the closest match, which gives the most precise paths for unions of objects
+      return results.reduce((a, b) => (b.length < a.length ? b : a));
+    }
+  }
+
+  if ("const" in schema && !isDeepEqual(schema.const, value)) {
+    return [{ path: at, message: `must be ${JSON.stringify(schema.const)}` }];
+  }
+
+  if (schema.enum && !schema.enum.some((v) => isDeepEqual(v, value))) {
+    const values = schema.enum.map((v) => JSON.stringify(v)).join(", ");
+    return [{ path: at, message: `must be one of ${values}` }];
+  }
+
+  if (schema.type && !hasType(schema.type, schema.format, value)) {
+    return [{ path: at, message: `must be ${schema.type}` }];
+  }
+
+  if (Array.isArray(value)) {
+    const { minItems = 0, maxItems = Infinity } = schema;
+    if (value.length < minItems || value.length > maxItems) {
+      return [
+        {
+          path: at,
+          message:
+            minItems == maxItems
+              ? `must have ${minItems} items`
+              : `must have between ${minItems} and ${maxItems} items`,
+        },
+      ];
+    }
+    return value.flatMap((item, i) => {
+      const itemSchema = schema.prefixItems?.[i] ?? schema.items;
+      return itemSchema ? recurse(itemSchema, item, childPath(at, i)) : [];
+    });
+  }
+
+  if (
+    (schema.properties || schema.required || schema.additionalProperties) &&
+    hasType("object", undefined, value)
+  ) {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    const missing = (schema.required ?? [])
+      .filter((key) => object[key] === undefined)
+      .map((key) => ({ path: childPath(at, key), message: "is required" }));
+
+    const invalid = Object.entries(object).flatMap(([key, v]) => {
+      if (v === undefined) return [];
+      const propSchema =
+        properties[key] ??
+        (typeof schema.additionalProperties == "object"
+          ? schema.additionalProperties
+          : undefined);
+      return propSchema ? recurse(propSchema, v, childPath(at, key)) : [];
+    });
+
+    return [...missing, ...invalid];
+  }
+
+  return [];
+}
+
+/**
+ * Reduces a schema of objects to one of their properties, for validating a property on its own, e.g. the value of a `@Payload("id")` parameter as `{ id }`.
+ * `$ref`s, `allOf` and `anyOf` are reduced member by member.
+ */
+export function pickPropertySchema(
+  schema: JsonSchema,
+  key: string,
+  defs: Record<string, JsonSchema> = {}
+): JsonSchema {
+  defs = schema.$defs ?? defs;
+  const pick = (s: JsonSchema) => pickPropertySchema(s, key, defs);
+
+  if (schema.$ref) {
+    const resolved = defs[schema.$ref.replace("#/$defs/", "")];
+    return resolved ? pick(resolved) : {};
+  }
+
+  // Values that aren't objects have no properties
+  if (schema.type && schema.type != "object") {
+    return { properties: { [key]: { not: {} } } };
+  }
+
+  const property =
+    schema.properties?.[key] ??
+    (typeof schema.additionalProperties == "object"
+      ? schema.additionalProperties
+      : undefined);
+  return {
+    ...(schema.allOf && { allOf: schema.allOf.map(pick) }),
+    ...(schema.anyOf && { anyOf: schema.anyOf.map(pick) }),
+    ...(property && { properties: { [key]: property } }),
+    ...(schema.required?.includes(key) && { required: [key] }),
+    ...(Object.keys(defs).length > 0 && { $defs: defs }),
+  };
+}
+
+export function assertValidPayload(
+  method: string,
+  schema: JsonSchema,
+  payload: unknown
+) {
+  const issues = validateSchema(schema, payload);
+  if (issues.length > 0) {
+    throw new PayloadValidationError(method, issues);
+  }
+}
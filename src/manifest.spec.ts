@@ -0,0 +1,125 @@
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import { resolveConfig } from "./config";
+import { extractServices, type ServiceManifest } from "./generator";
+import { MANIFEST_VERSION, renderManifestFile } from "./manifest";
+
+describe("service manifest", () => {
+  let root: string;
+  let services: ServiceManifest[];
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/users/src/users.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { UsersController } from "./users.controller";
+        @Module({ controllers: [UsersController] })
+        export class UsersModule {}
+      `,
+      "apps/users/src/users.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { EventPattern, MessagePattern, Payload } from "@nestjs/microservices";
+        import { Observable } from "rxjs";
+
+        interface User {
+          id: number;
+          name: string;
+        }
+
+        @Controller()
+        export class UsersController {
+          @MessagePattern("users.get")
+          getUser(@Payload("id") id: number): Promise<User> {
+            return Promise.resolve({ id, name: "" });
+          }
+
+          @MessagePattern("users.list")
+          list$(): Observable<User> {
+            return new Observable();
+          }
+
+          @EventPattern("users.user-created")
+          onUserCreated(@Payload() user: User): void {}
+        }
+      `,
+    });
+    services = await extractServices(resolveConfig({ root }));
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  it("describes every handler of every service", () => {
+    const manifest = JSON.parse(renderManifestFile(services, root));
+
+    expect(manifest).toEqual({
+      version: MANIFEST_VERSION,
+      services: [
+        {
+          name: "Users",
+          key: "users",
+          modulePath: "apps/users/src/users.module.ts",
+          handlers: [
+            {
+              kind: "message",
+              clientMethod: "getUser",
+              pattern: "users.get",
+              className: "UsersController",
+              methodName: "getUser",
+              controllerPath: "apps/users/src/users.controller.ts",
+              line: 14,
+              column: 11,
+              payloadParams: [{ index: 0, key: "id" }],
+              streaming: false,
+              payload: {
+                type: "object",
+                properties: { id: { type: "number" } },
+                required: ["id"],
+              },
+              returns: { $ref: "#/$defs/User", $defs: expect.any(Object) },
+            },
+            expect.objectContaining({
+              clientMethod: "list$",
+              streaming: true,
+              payloadParams: [],
+              payload: null,
+            }),
+            expect.objectContaining({
+              kind: "event",
+              clientMethod: "emitUserCreated",
+              pattern: "users.user-created",
+            }),
+          ],
+          events: [],
+        },
+      ],
+    });
+  });
+
+  it("writes the keys in a stable order", () => {
+    const output = renderManifestFile(services, root);
+    const manifest = JSON.parse(output);
+
+    expect(renderManifestFile(services, root)).toBe(output);
+    expect(Object.keys(manifest)).toEqual(["version", "services"]);
+    expect(Object.keys(manifest.services[0])).toEqual([
+      "name",
+      "key",
+      "modulePath",
+      "handlers",
+      "events",
+    ]);
+    expect(Object.keys(manifest.services[0].handlers[0])).toEqual([
+      "kind",
+      "clientMethod",
+      "pattern",
+      "className",
+      "methodName",
+      "controllerPath",
+      "line",
+      "column",
+      "payloadParams",
+      "streaming",
+      "payload",
+      "returns",
+    ]);
+  });
+});
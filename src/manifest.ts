@@ -0,0 +1,153 @@
+import * as path from "node:path";
+import * as R from "remeda";
+import { Type } from "ts-morph";
+import {
+  MethodInfo,
+  PayloadParam,
+  ServiceManifest,
+  getPayloadParameters,
+  hasClientMethods,
+} from "./generator";
+import { TransportName } from "./config";
+import { getLocation } from "./diagnostics";
+import { EventDeclaration } from "./events";
+import { JsonSchema } from "./json-schema";
+import { payloadToSchema, typeToSchema } from "./type-schema";
+
+export const MANIFEST_VERSION = 3;
+
+export interface HandlerContract {
+  kind: "message" | "event";
+  /** Method of the generated client proxy */
+  clientMethod: string;
+  pattern: unknown;
+  className: string;
+  methodName: string;
+  controllerPath: string;
+  /** Line and column of the name of the handler in its controller, starting at 1 */
+  line: number;
+  column: number;
+  /** Parameters of the handler receiving the payload or one of its properties, empty if it has none */
+  payloadParams: PayloadParam[];
+  /** Message handler may reply with more than one value */
+  streaming: boolean;
+  /** Contract version from `@ContractVersion`, omitted for unversioned handlers */
+  version?: number;
+  payload: JsonSchema | null;
+  returns: JsonSchema;
+}
+
+export interface ServiceContract {
+  name: string;
+  /** Key of the service in the pattern map */
+  key: string;
+  modulePath: string;
+  handlers: HandlerContract[];
+  /** Events the service publishes without handling them */
+  events: DeclaredEventContract[];
+  /** Configured transport, omitted if it isn't configured */
+  transport?: TransportName;
+}
+
+export interface DeclaredEventContract {
+  clientMethod: string;
+  pattern: string;
+  /** File of the `@EmitsEvent` decorator or the events file */
+  declarationPath: string;
+  payload: JsonSchema | null;
+}
+
+export interface ContractManifest {
+  version: typeof MANIFEST_VERSION;
+  services: ServiceContract[];
+}
+
+/** Type of the values a handler replies with: unwraps promises and observables */
+export function getReplyType(type: Type): Type {
+  const awaited = type.getAwaitedType() ?? type;
+  if (awaited.getSymbol()?.getName() === "Observable") {
+    return awaited.getTypeArguments()[0] ?? awaited;
+  }
+  return awaited;
+}
+
+/** Schema of the payload of a handler, null if it has none */
+export function getPayloadSchema(info: MethodInfo) {
+  const parts = getPayloadParameters(info.method, info).map(
+    ({ key, param }) => ({
+      type: param.getType(),
+      key,
+      isOptional: param.isOptional(),
+    })
+  );
+  return parts.length > 0 ? payloadToSchema(parts, info.method) : null;
+}
+
+export function describeHandler(
+  info: MethodInfo,
+  root: string
+): HandlerContract {
+  const { method, payloadParams } = info;
+  const { line, column } = getLocation(method.getNameNode()).start;
+
+  return {
+    kind: info.isEventHandler ? "event" : "message",
+    clientMethod: info.clientMethodName,
+    pattern: info.patternValue,
+    className: info.className,
+    methodName: info.methodName,
+    controllerPath: path.relative(root, info.controllerPath),
+    line,
+    column,
+    payloadParams,
+    streaming: info.isStreaming,
+    version: info.version,
+    payload: getPayloadSchema(info),
+    returns: typeToSchema(getReplyType(method.getReturnType()), method),
+  };
+}
+
+/** Schema of the payload of a declared event, null if it has none */
+export function getDeclaredPayloadSchema(event: EventDeclaration) {
+  return event.payloadType ? typeToSchema(event.payloadType, event.node) : null;
+}
+
+export function describeEvent(
+  event: EventDeclaration,
+  root: string
+): DeclaredEventContract {
+  return {
+    clientMethod: event.clientMethodName,
+    pattern: event.patternValue,
+    declarationPath: path.relative(
+      root,
+      event.node.getSourceFile().getFilePath()
+    ),
+    payload: getDeclaredPayloadSchema(event),
+  };
+}
+
+export function buildManifest(
+  services: ServiceManifest[],
+  root: string
+): ContractManifest {
+  return {
+    version: MANIFEST_VERSION,
+    services: R.pipe(
+      services,
+      R.filter(hasClientMethods),
+      R.map((service) => ({
+        name: service.serviceName,
+        key: R.uncapitalize(service.serviceName),
+        modulePath: path.relative(root, service.modulePath),
+        handlers: service.methods.map((info) => describeHandler(info, root)),
+        events: service.events.map((event) => describeEvent(event, root)),
+        transport: service.transport,
+      }))
+    ),
+  };
+}
+
+export function renderManifestFile(services: ServiceManifest[], root: string) {
+  return JSON.stringify(buildManifest(services, root), null, 2);
+}
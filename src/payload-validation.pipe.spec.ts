@@ -0,0 +1,62 @@
+import { RpcException } from "@nestjs/microservices";
+import { type JsonSchema } from "./json-schema";
+import { PayloadValidationPipe } from "./payload-validation.pipe";
+
+const schema: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "number" },
+    name: { type: "string" },
+  },
+  required: ["id", "name"],
+};
+
+const getError = (run: () => unknown) => {
+  try {
+    run();
+  } catch (e) {
+    return e as RpcException;
+  }
+  throw new Error("Expected the pipe to throw");
+};
+
+describe("PayloadValidationPipe", () => {
+  const pipe = new PayloadValidationPipe(schema, "rename");
+
+  it("passes valid payloads through", () => {
+    const payload = { id: 1, name: "Ada" };
+
+    expect(pipe.transform(payload, { type: "body" })).toBe(payload);
+  });
+
+  it("throws an RpcException with the issues of invalid payloads", () => {
+    const error = getError(() => pipe.transform({ id: "1" }, { type: "body" }));
+
+    expect(error).toBeInstanceOf(RpcException);
+    expect(error.getError()).toEqual({
+      message:
+        'Invalid payload for "rename": name is required; id must be number',
+      issues: [
+        { path: "name", message: "is required" },
+        { path: "id", message: "must be number" },
+      ],
+    });
+  });
+
+  it("validates the property received by a keyed parameter", () => {
+    const metadata = { type: "body", data: "id" } as const;
+
+    expect(pipe.transform(1, metadata)).toBe(1);
+    expect(getError(() => pipe.transform("1", metadata)).getError()).toEqual({
+      message: 'Invalid payload for "rename": id must be number',
+      issues: [{ path: "id", message: "must be number" }],
+    });
+    expect(
+      getError(() => pipe.transform(undefined, metadata)).getError()
+    ).toEqual(
+      expect.objectContaining({
+        issues: [{ path: "id", message: "is required" }],
+      })
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  Injectable,
+  PipeTransform,
+  type ArgumentMetadata,
+} from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import {
+  PayloadValidationError,
+  pickPropertySchema,
+  validateSchema,
+  type JsonSchema,
+} from "./json-schema";
+
+/**
+ * Validates incoming payloads against the generated schema of a handler and rejects invalid ones with an `RpcException`.
+ * On parameters receiving a property of the payload, e.g. `@Payload("id", pipe)`, only that property is validated.
+ *
+ * @example
+ * @MessagePattern("users.create")
+ * create(@Payload(new PayloadValidationPipe(payloadSchemas.users.create, "create")) dto: CreateUserDto)
+ */
+@Injectable()
+export class PayloadValidationPipe implements PipeTransform {
+  constructor(
+    private readonly schema: JsonSchema,
+    private readonly method = "handler"
+  ) {}
+
+  transform(value: unknown, metadata?: ArgumentMetadata) {
+    const key = metadata?.data;
+    const issues = key
+      ? validateSchema(pickPropertySchema(this.schema, key), { [key]: value })
+      : validateSchema(this.schema, value);
+    if (issues.length > 0) {
+      const error = new PayloadValidationError(this.method, issues);
+      throw new RpcException({ message: error.message, issues });
+    }
+    return value;
+  }
+}
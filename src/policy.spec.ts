@@ -0,0 +1,125 @@
+import { defer, lastValueFrom, of, throwError, TimeoutError } from "rxjs";
+import {
+  CircuitOpenError,
+  createCircuitBreaker,
+  getBackoffDelay,
+  retryWithBackoff,
+} from "./policy";
+
+/** Observable failing with the errors in turn, then replying with "ok" */
+function failing(...errors: unknown[]) {
+  let attempts = 0;
+  const source = defer(() => {
+    const error = errors[attempts++];
+    return error ? throwError(() => error) : of("ok");
+  });
+  return { source, attempts: () => attempts };
+}
+
+const connectionError = Object.assign(new Error("refused"), {
+  code: "ECONNREFUSED",
+});
+
+describe("getBackoffDelay", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("multiplies the delay by the factor for each retry, up to the maximum", () => {
+    const policy = { initialDelay: 100, factor: 3, maxDelay: 1000 };
+    expect([1, 2, 3, 4].map((n) => getBackoffDelay(policy, n))).toEqual([
+      100, 300, 900, 1000,
+    ]);
+  });
+
+  it("randomizes the jitter fraction of the delay", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(getBackoffDelay({ initialDelay: 100, jitter: 0.5 }, 1)).toBe(75);
+  });
+});
+
+describe("retryWithBackoff", () => {
+  it("retries timeouts and connection errors up to the count", async () => {
+    const call = failing(new TimeoutError(), connectionError);
+    const retried = call.source.pipe(
+      retryWithBackoff({ count: 2, initialDelay: 1 })
+    );
+
+    await expect(lastValueFrom(retried)).resolves.toBe("ok");
+    expect(call.attempts()).toBe(3);
+  });
+
+  it("fails with the last error once the retries are used up", async () => {
+    const call = failing(connectionError, connectionError);
+    const retried = call.source.pipe(
+      retryWithBackoff({ count: 1, initialDelay: 1 })
+    );
+
+    await expect(lastValueFrom(retried)).rejects.toBe(connectionError);
+    expect(call.attempts()).toBe(2);
+  });
+
+  it("doesn't retry errors replied by the handler", async () => {
+    const call = failing({ status: "error", message: "Not found" });
+    const retried = call.source.pipe(
+      retryWithBackoff({ count: 3, initialDelay: 1 })
+    );
+
+    await expect(lastValueFrom(retried)).rejects.toEqual({
+      status: "error",
+      message: "Not found",
+    });
+    expect(call.attempts()).toBe(1);
+  });
+});
+
+describe("createCircuitBreaker", () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  const call = (
+    breaker: ReturnType<typeof createCircuitBreaker>,
+    error?: unknown
+  ) =>
+    lastValueFrom(
+      defer(() => {
+        breaker.check();
+        return error ? throwError(() => error) : of("ok");
+      }).pipe(breaker.track())
+    );
+
+  it("opens after consecutive failures and lets a trial call through after the reset timeout", async () => {
+    const breaker = createCircuitBreaker("users", {
+      failureThreshold: 2,
+      resetTimeout: 1000,
+    });
+    await expect(call(breaker, connectionError)).rejects.toBe(connectionError);
+    await expect(call(breaker, connectionError)).rejects.toBe(connectionError);
+    await expect(call(breaker)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    jest.advanceTimersByTime(1000);
+    await expect(call(breaker)).resolves.toBe("ok");
+    await expect(call(breaker)).resolves.toBe("ok");
+  });
+
+  it("opens again when the trial call fails", async () => {
+    const breaker = createCircuitBreaker("users", {
+      failureThreshold: 1,
+      resetTimeout: 1000,
+    });
+    await expect(call(breaker, connectionError)).rejects.toBe(connectionError);
+
+    jest.advanceTimersByTime(1000);
+    await expect(call(breaker, connectionError)).rejects.toBe(connectionError);
+    await expect(call(breaker)).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it("doesn't count errors replied by the handler", async () => {
+    const breaker = createCircuitBreaker("users", {
+      failureThreshold: 1,
+      resetTimeout: 1000,
+    });
+    await expect(call(breaker, { status: "error" })).rejects.toEqual({
+      status: "error",
+    });
+    await expect(call(breaker)).resolves.toBe("ok");
+  });
+});
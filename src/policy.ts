@@ -0,0 +1,163 @@
+import {
+  MonoTypeOperatorFunction,
+  TimeoutError,
+  retry,
+  tap,
+  throwError,
+  timer,
+} from "rxjs";
+
+export interface BackoffPolicy {
+  /** Delay before the first retry in ms */
+  initialDelay?: number;
+  /** Multiplier of the delay for each further retry */
+  factor?: number;
+  maxDelay?: number;
+  /** Fraction of the delay that is randomized, from 0 (fixed delays) to 1 (between 0 and the full delay) */
+  jitter?: number;
+}
+
+export interface RetryPolicy extends BackoffPolicy {
+  /** Retries after the first attempt */
+  count: number;
+  /** Errors that are retried. Defaults to timeouts and connection errors */
+  isRetryable?: (error: unknown) => boolean;
+}
+
+export interface CircuitBreakerPolicy {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** Time in ms the circuit stays open before a trial call is let through */
+  resetTimeout: number;
+  /** Errors that count as failures. Defaults to timeouts and connection errors */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/** Policy of a single call, set per client, per method or in the `Options` of a call */
+export interface CallPolicy {
+  /** Time in ms to wait for a reply */
+  timeout?: number;
+  /** Retries of failed requests. Requests aren't retried by default, as handlers may not be idempotent */
+  retry?: RetryPolicy | false;
+}
+
+export interface ClientPolicy extends CallPolicy {
+  /** Time in ms to wait for each connection attempt */
+  connectTimeout?: number;
+  /** Retries of connecting, also when reconnecting after the connection dropped */
+  connectRetry?: RetryPolicy;
+  /** Fails calls fast while the service keeps failing */
+  circuitBreaker?: CircuitBreakerPolicy | false;
+}
+
+export const SERVICE_TIMEOUT = 5000;
+
+export const DEFAULT_POLICY = {
+  timeout: SERVICE_TIMEOUT,
+  connectTimeout: 2000,
+  connectRetry: { count: 5, initialDelay: 3000, factor: 1 },
+  retry: false,
+  circuitBreaker: false,
+} satisfies ClientPolicy;
+
+export class CircuitOpenError extends Error {
+  constructor(readonly serviceName: string) {
+    super(`Circuit to ${serviceName} is open after repeated failures`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+const CONNECTION_ERROR_CODES: unknown[] = [
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EPIPE",
+  "ETIMEDOUT",
+  "EHOSTUNREACH",
+  "ENOTFOUND",
+];
+
+/** Timeouts and errors of the connection, as opposed to errors replied by the handler */
+export function isTransientError(error: unknown) {
+  return (
+    error instanceof TimeoutError ||
+    CONNECTION_ERROR_CODES.includes((error as { code?: string })?.code) ||
+    (error instanceof Error && error.message == "Connection closed")
+  );
+}
+
+export function getBackoffDelay(policy: BackoffPolicy, retryCount: number) {
+  const {
+    initialDelay = 200,
+    factor = 2,
+    maxDelay = 30000,
+    jitter = 0,
+  } = policy;
+  const delay = Math.min(maxDelay, initialDelay * factor ** (retryCount - 1));
+  return delay * (1 - jitter * Math.random());
+}
+
+/** Resubscribes to the source on retryable errors, waiting with exponential backoff in between */
+export function retryWithBackoff<T>(
+  policy: RetryPolicy | false | undefined
+): MonoTypeOperatorFunction<T> {
+  if (!policy || policy.count <= 0) return (source) => source;
+  const { count, isRetryable = isTransientError } = policy;
+  return retry({
+    count,
+    delay: (error, retryCount) =>
+      isRetryable(error)
+        ? timer(getBackoffDelay(policy, retryCount))
+        : throwError(() => error),
+  });
+}
+
+/** Tracks the failures of a service: closed, open after `failureThreshold` failures, half open with a single trial call after `resetTimeout` */
+export function createCircuitBreaker(
+  serviceName: string,
+  {
+    failureThreshold,
+    resetTimeout,
+    isFailure = isTransientError,
+  }: CircuitBreakerPolicy
+) {
+  let failures = 0;
+  let openedAt: number | undefined;
+  let isTrialPending = false;
+
+  const succeed = () => {
+    failures = 0;
+    openedAt = undefined;
+    isTrialPending = false;
+  };
+
+  const fail = (error: unknown) => {
+    if (error instanceof CircuitOpenError) return;
+    if (!isFailure(error)) return succeed();
+    failures++;
+    if (isTrialPending || failures >= failureThreshold) {
+      openedAt = Date.now();
+    }
+    isTrialPending = false;
+  };
+
+  return {
+    /** Throws a `CircuitOpenError` while the circuit is open */
+    check() {
+      if (openedAt === undefined) return;
+      if (isTrialPending || Date.now() - openedAt < resetTimeout) {
+        throw new CircuitOpenError(serviceName);
+      }
+      isTrialPending = true;
+    },
+    /** Records the outcome of a call */
+    track<T>(): MonoTypeOperatorFunction<T> {
+      return tap({
+        next: succeed,
+        complete: succeed,
+        error: fail,
+        // Let another trial through if this one was cancelled
+        unsubscribe: () => (isTrialPending = false),
+      });
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import * as path from "node:path";
+import { lastValueFrom, toArray, type Observable } from "rxjs";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import { extractServices, generateClients } from "./generator";
+import { UnconfiguredMockError, createProxyMock } from "./proxy-mock";
+
+interface AccountsProxy {
+  getAccount(payload: number): Promise<string>;
+  watchAccounts(): Observable<string>;
+  v1: { getAccount(payload: number): Promise<number> };
+}
+
+interface AccountsReplies {
+  getAccount: string;
+  watchAccounts: string;
+  v1: { getAccount: number };
+}
+
+const createMock = (strict?: boolean) =>
+  createProxyMock<AccountsProxy, AccountsReplies>(
+    "userAccounts",
+    {
+      getAccount: "promise",
+      watchAccounts: "observable",
+      v1: { getAccount: "promise" },
+    },
+    { strict }
+  );
+
+describe("createProxyMock", () => {
+  it("replies with the configured values and records the calls", async () => {
+    const mock = createMock();
+    mock.getAccount.resolves("alice");
+    mock.watchAccounts.emits("alice", "bob");
+
+    await expect(mock.getAccount(1)).resolves.toBe("alice");
+    await expect(
+      lastValueFrom(mock.watchAccounts().pipe(toArray()))
+    ).resolves.toEqual(["alice", "bob"]);
+    expect(mock.getAccount.calls).toEqual([[1]]);
+    expect(mock.getAccount.reset().calls).toEqual([]);
+  });
+
+  it("replies with nothing from unconfigured methods unless strict", async () => {
+    await expect(createMock().v1.getAccount(1)).resolves.toBeUndefined();
+    expect(() => createMock(true).v1.getAccount(1)).toThrow(
+      new UnconfiguredMockError("userAccounts.v1", "getAccount")
+    );
+  });
+});
+
+describe("generated mock factories", () => {
+  let root: string;
+  let mockFile: string | undefined;
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/user-accounts/src/user-accounts.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { AccountsController } from "./accounts.controller";
+        @Module({ controllers: [AccountsController] })
+        export class UserAccountsModule {}
+      `,
+      "apps/user-accounts/src/accounts.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { MessagePattern, Payload } from "@nestjs/microservices";
+
+        @Controller()
+        export class AccountsController {
+          @MessagePattern("accounts.get")
+          getAccount(@Payload() id: number): string {
+            return "";
+          }
+        }
+      `,
+    });
+    const config = { root, mocks: true };
+    const files = await generateClients(await extractServices(config), config);
+    mockFile = files.get(
+      path.join(
+        root,
+        "apps/user-accounts/src/user-accounts.proxy.mock.generated.ts"
+      )
+    );
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  it("names the service by its key in the pattern map", () => {
+    expect(mockFile).toMatch(/createProxyMock\(\s*"userAccounts",/);
+  });
+});
@@ -0,0 +1,117 @@
+import { EMPTY, from, throwError } from "rxjs";
+
+/** How a proxy method replies: message methods with a Promise, streaming and event methods with an Observable */
+export type MockMethodKind = "promise" | "observable";
+
+export interface ProxyMockOptions {
+  /** Throw on calls of methods that weren't configured, instead of replying with nothing */
+  strict?: boolean;
+}
+
+export class UnconfiguredMockError extends Error {
+  constructor(readonly serviceName: string, readonly methodName: string) {
+    super(`Call of unconfigured mock method ${serviceName}.${methodName}`);
+    this.name = "UnconfiguredMockError";
+  }
+}
+
+type AnyFunction = (...args: any[]) => any;
+
+interface MethodStub<F extends AnyFunction> {
+  /** Arguments of every call, in order */
+  calls: Parameters<F>[];
+  /** Replaces the implementation of the method */
+  implement(implementation: F): this;
+  /** Clears the recorded calls and the configured reply */
+  reset(): this;
+}
+
+export interface PromiseStub<F extends AnyFunction, Reply>
+  extends MethodStub<F> {
+  resolves(value: Reply): this;
+  rejects(error: unknown): this;
+}
+
+export interface ObservableStub<F extends AnyFunction, Value>
+  extends MethodStub<F> {
+  emits(...values: Value[]): this;
+  errors(error: unknown): this;
+}
+
+/** Proxy whose methods are stubs. `Replies` holds the reply types of the methods by name, and those of the proxies of contract versions by their key */
+export type ProxyMock<P, Replies> = {
+  [K in keyof P]: P[K] extends AnyFunction
+    ? P[K] &
+        (P[K] extends (...args: any[]) => Promise<any>
+          ? PromiseStub<P[K], K extends keyof Replies ? Replies[K] : unknown>
+          : ObservableStub<
+              P[K],
+              K extends keyof Replies ? Replies[K] : unknown
+            >)
+    : ProxyMock<P[K], K extends keyof Replies ? Replies[K] : unknown>;
+};
+
+/** Kinds of the methods of a proxy, and of the proxies of its contract versions by their key, e.g. `v1` */
+export interface MockMethodKinds {
+  [name: string]: MockMethodKind | MockMethodKinds;
+}
+
+function createStub(
+  serviceName: string,
+  methodName: string,
+  kind: MockMethodKind,
+  { strict = false }: ProxyMockOptions
+) {
+  let implementation: AnyFunction | undefined;
+
+  const stub = Object.assign(
+    (...args: unknown[]) => {
+      stub.calls.push(args);
+      if (implementation) return implementation(...args);
+      if (strict) throw new UnconfiguredMockError(serviceName, methodName);
+      return kind == "promise" ? Promise.resolve(undefined) : EMPTY;
+    },
+    {
+      calls: [] as unknown[][],
+      implement(fn: AnyFunction) {
+        implementation = fn;
+        return stub;
+      },
+      reset() {
+        stub.calls.length = 0;
+        implementation = undefined;
+        return stub;
+      },
+    }
+  );
+
+  return kind == "promise"
+    ? Object.assign(stub, {
+        resolves: (value: unknown) =>
+          stub.implement(() => Promise.resolve(value)),
+        rejects: (error: unknown) =>
+          stub.implement(() => Promise.reject(error)),
+      })
+    : Object.assign(stub, {
+        emits: (...values: unknown[]) => stub.implement(() => from(values)),
+        errors: (error: unknown) =>
+          stub.implement(() => throwError(() => error)),
+      });
+}
+
+/** Creates a mock of a generated proxy. Used by the generated `create<Service>ProxyMock()` factories */
+export function createProxyMock<P, Replies>(
+  /** Key of the service in the pattern map, e.g. `userAccounts`, named by errors of unconfigured methods */
+  serviceName: string,
+  methods: MockMethodKinds,
+  options: ProxyMockOptions = {}
+): ProxyMock<P, Replies> {
+  const mock: Record<string, unknown> = {};
+  for (const [name, kind] of Object.entries(methods)) {
+    mock[name] =
+      typeof kind == "string"
+        ? createStub(serviceName, name, kind, options)
+        : createProxyMock(`${serviceName}.${name}`, kind, options);
+  }
+  return mock as ProxyMock<P, Replies>;
+}
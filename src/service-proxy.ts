@@ -0,0 +1,174 @@
+import {
+  Observable,
+  defer,
+  first,
+  lastValueFrom,
+  switchMap,
+  timeout,
+} from "rxjs";
+import { patternMap } from "./generated/patterns";
+import { assertValidPayload, type JsonSchema } from "./json-schema";
+import {
+  DEFAULT_POLICY,
+  createCircuitBreaker,
+  retryWithBackoff,
+  type CallPolicy,
+  type ClientPolicy,
+} from "./policy";
+
+/** Key of a service in the pattern map, or of a version of its contract, e.g. `users.v1` */
+export type ServiceName = string & keyof typeof patternMap;
+
+type PatternMapEntry = readonly [
+  unknown,
+  boolean,
+  "message" | "stream" | "event"
+];
+
+/** Keys of contract versions, e.g. `v1` */
+const VERSION_KEY_RE = /^v\d+$/;
+
+export interface ServiceProxyOptions {
+  /** Payload schemas of the service by method, e.g. `payloadSchemas.users` from the generated validators file, with those of versions prefixed by their key, e.g. `v1.getUser`. Invalid payloads are rejected with a `PayloadValidationError` before they are sent */
+  validate?: Record<string, JsonSchema>;
+  /** Policy of every call, merged over `DEFAULT_POLICY` */
+  policy?: ClientPolicy;
+  /** Policies of single methods, merged over `policy`. `Options` of a call take precedence over both */
+  methods?: Record<string, CallPolicy>;
+}
+
+/** Call of a proxy method */
+export interface ProxyCall {
+  serviceName: string;
+  /** Method of the proxy that was called, e.g. `getUser` or `emitUserCreated` */
+  methodName: string;
+  kind: "message" | "event";
+  pattern: unknown;
+  payload: unknown;
+  /** Options the method was called with */
+  options: CallPolicy;
+}
+
+/** Transport of a proxy, e.g. a Nest `ClientProxy` or a standalone connection */
+export interface ProxyTransport {
+  /** Connects, completing right away while connected */
+  connect(): Observable<unknown>;
+  /** Sends the message, or emits the event, of a call */
+  send(call: ProxyCall): Observable<unknown>;
+  /** Wraps sending a call, e.g. in client interceptors, which may replace its payload */
+  intercept?(
+    call: ProxyCall,
+    send: () => Observable<unknown>
+  ): Observable<unknown>;
+}
+
+/** Keys of the versions of the contract of a service in the pattern map, e.g. `v1` */
+export function getVersionKeys(serviceName: ServiceName) {
+  return Object.keys(patternMap)
+    .filter((key) => key.startsWith(`${serviceName}.`))
+    .map((key) => key.slice(serviceName.length + 1))
+    .filter((key) => VERSION_KEY_RE.test(key));
+}
+
+/** Patterns of the methods of a service and of the versions of its contract */
+export function getServicePatterns(serviceName: ServiceName) {
+  const patterns: Record<string, Record<string, PatternMapEntry>> = patternMap;
+  return [
+    serviceName,
+    ...getVersionKeys(serviceName).map((key) => `${serviceName}.${key}`),
+  ].flatMap((key) => Object.values(patterns[key]));
+}
+
+/**
+ * Implements the proxy interface generated for a service over a transport, with the patterns of the pattern map.
+ * Methods validate their payload and apply the policy of the call, message methods return a promise of the reply, stream and emit methods an observable.
+ * The properties of the target stay accessible, e.g. the client to close it.
+ */
+export function createServiceProxy<Service>(
+  serviceName: ServiceName,
+  target: object,
+  transport: ProxyTransport,
+  options: ServiceProxyOptions = {}
+): Service {
+  const patterns: Record<string, Record<string, PatternMapEntry>> = patternMap;
+  // Versions of the contract of the service are proxies within the proxy, e.g. `users.v1`
+  const versionKeys = getVersionKeys(serviceName);
+  const policy = { ...DEFAULT_POLICY, ...options.policy };
+  const circuitBreaker = policy.circuitBreaker
+    ? createCircuitBreaker(serviceName, policy.circuitBreaker)
+    : undefined;
+
+  /** Proxy of the latest version of the contract, or of the version with the key, e.g. `v1` */
+  const createVersionProxy = (target: object, versionKey?: string): any => {
+    const key = versionKey ? `${serviceName}.${versionKey}` : serviceName;
+    const methods = patterns[key];
+
+    return new Proxy(target, {
+      get(target: any, methodName: string | symbol) {
+        if (methodName in target) return target[methodName];
+
+        if (
+          !versionKey &&
+          typeof methodName == "string" &&
+          versionKeys.includes(methodName)
+        ) {
+          target[methodName] = createVersionProxy({}, methodName);
+          return target[methodName];
+        }
+
+        // Not a method of the service, e.g. `then` or lifecycle hooks looked up by Nest
+        if (typeof methodName != "string" || !(methodName in methods)) return;
+
+        const [pattern, hasPayload, kind] = methods[methodName];
+        const schema =
+          options.validate?.[
+            versionKey ? `${versionKey}.${methodName}` : methodName
+          ];
+        const isObservable = kind != "message";
+
+        target[methodName] = (arg1: unknown, arg2: unknown) => {
+          const callOptions = ((hasPayload ? arg2 : arg1) ?? {}) as CallPolicy;
+          const callPolicy = {
+            ...policy,
+            ...options.methods?.[methodName],
+            ...callOptions,
+          };
+          const call: ProxyCall = {
+            serviceName: key,
+            methodName,
+            kind: kind == "event" ? "event" : "message",
+            pattern,
+            payload: hasPayload ? arg1 : {},
+            options: callOptions,
+          };
+
+          const send = () => {
+            if (schema && hasPayload) {
+              assertValidPayload(methodName, schema, call.payload);
+            }
+            const attempt$ = defer(() => {
+              circuitBreaker?.check();
+              return transport.connect();
+            }).pipe(
+              first(),
+              switchMap(() =>
+                transport.send(call).pipe(timeout(callPolicy.timeout))
+              ),
+              circuitBreaker ? circuitBreaker.track() : (source) => source
+            );
+            return attempt$.pipe(retryWithBackoff(callPolicy.retry));
+          };
+
+          const ob$ = transport.intercept
+            ? transport.intercept(call, send)
+            : defer(send);
+          return isObservable ? ob$ : lastValueFrom(ob$);
+        };
+
+        return target[methodName];
+      },
+    });
+  };
+
+  return createVersionProxy(target);
+}
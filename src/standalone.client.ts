@@ -0,0 +1,96 @@
+import { defer, timeout } from "rxjs";
+import { DEFAULT_POLICY, retryWithBackoff, type CallPolicy } from "./policy";
+import {
+  createServiceProxy,
+  type ServiceName,
+  type ServiceProxyOptions,
+} from "./service-proxy";
+import {
+  createRedisConnection,
+  createTcpConnection,
+  type RedisConnectionOptions,
+  type StandaloneConnection,
+  type TcpConnectionOptions,
+} from "./standalone.transports";
+
+export { DEFAULT_POLICY, SERVICE_TIMEOUT } from "./policy";
+export {
+  createProxyMock,
+  UnconfiguredMockError,
+  type ProxyMock,
+  type ProxyMockOptions,
+} from "./proxy-mock";
+export type { ServiceName } from "./service-proxy";
+export {
+  createRedisConnection,
+  createTcpConnection,
+  type RedisConnectionOptions,
+  type StandaloneConnection,
+  type TcpConnectionOptions,
+} from "./standalone.transports";
+
+/** Transports whose wire protocol the standalone client speaks */
+export type StandaloneTransportName = "tcp" | "redis";
+
+/** Options of a call, the generated proxies take them like those of the Nest client. TCP and Redis have no options of their own */
+export type Options<
+  _T extends StandaloneTransportName = StandaloneTransportName
+> = CallPolicy;
+
+export type ConnectionOptions =
+  | ({ transport: "tcp" } & TcpConnectionOptions)
+  | ({ transport: "redis" } & RedisConnectionOptions);
+
+/** Payload schemas and policies of the client, like those of `createClientProxy` */
+export type StandaloneClientOptions = ServiceProxyOptions;
+
+const CONNECTION = Symbol("connection");
+
+/** Closes the connection of a client created by `createStandaloneClient` */
+export async function closeStandaloneClient(client: object) {
+  await (client as { [CONNECTION]?: StandaloneConnection })[
+    CONNECTION
+  ]?.close();
+}
+
+/**
+ * Client of a service for scripts, CLIs and functions without Nest, implementing the proxy interface generated for it.
+ * Speaks the wire protocol of Nest's TCP and Redis transports, with the same patterns, policies and validation as `createClientProxy`.
+ *
+ * @example
+ * const users = createStandaloneClient<UsersProxy>("users", { transport: "tcp", port: 3001 });
+ * const user = await users.getUser({ id: 1 });
+ * await closeStandaloneClient(users);
+ */
+export function createStandaloneClient<Service extends object>(
+  serviceName: ServiceName,
+  /** Connection options of the transport of the service, or a connection to use */
+  connectionOptions: ConnectionOptions | StandaloneConnection,
+  clientOptions: StandaloneClientOptions = {}
+): Service {
+  const connection =
+    "transport" in connectionOptions
+      ? connectionOptions.transport == "redis"
+        ? createRedisConnection(connectionOptions)
+        : createTcpConnection(connectionOptions)
+      : connectionOptions;
+  const policy = { ...DEFAULT_POLICY, ...clientOptions.policy };
+
+  return createServiceProxy<Service>(
+    serviceName,
+    { [CONNECTION]: connection },
+    {
+      // Connecting is a no-op while connected, after the connection dropped it reconnects
+      connect: () =>
+        defer(() => connection.connect()).pipe(
+          timeout(policy.connectTimeout),
+          retryWithBackoff(policy.connectRetry)
+        ),
+      send: ({ kind, pattern, payload }) =>
+        kind == "event"
+          ? connection.emit(pattern, payload)
+          : connection.send(pattern, payload),
+    },
+    clientOptions
+  );
+}
@@ -0,0 +1,272 @@
+import type { AddressInfo } from "node:net";
+import * as net from "node:net";
+import { ServerTCP } from "@nestjs/microservices";
+import { lastValueFrom, of, toArray } from "rxjs";
+import {
+  createRedisConnection,
+  createTcpConnection,
+  type StandaloneConnection,
+} from "./standalone.transports";
+
+const NAME = "Zoë ✓ 🚀";
+
+const collect = (
+  connection: StandaloneConnection,
+  pattern: unknown,
+  data: unknown
+) => lastValueFrom(connection.send(pattern, data).pipe(toArray()));
+
+describe("TCP connection to a Nest TCP server", () => {
+  let server: ServerTCP;
+  let connection: StandaloneConnection;
+  const events: unknown[] = [];
+
+  beforeAll(async () => {
+    server = new ServerTCP({ host: "127.0.0.1", port: 0 });
+    server.addHandler("users.get", async (id: number) => ({ id, name: NAME }));
+    server.addHandler({ service: "users", cmd: "count" }, async () => 2);
+    server.addHandler("users.watch", async () => of(1, 2, 3));
+    server.addHandler(
+      "users.user-deleted",
+      async (data: unknown) => {
+        events.push(data);
+      },
+      true
+    );
+    await new Promise<void>((resolve, reject) =>
+      server.listen((error?: unknown) => (error ? reject(error) : resolve()))
+    );
+    const { port } = server.unwrap<net.Server>().address() as AddressInfo;
+    connection = createTcpConnection({ host: "127.0.0.1", port });
+    await connection.connect();
+  });
+
+  afterAll(async () => {
+    await connection.close();
+    server.close();
+  });
+
+  it("replies to messages, framing packets by their length in characters", async () => {
+    await expect(collect(connection, "users.get", 1)).resolves.toEqual([
+      { id: 1, name: NAME },
+    ]);
+  });
+
+  it("replies to messages with object patterns", async () => {
+    await expect(
+      collect(connection, { cmd: "count", service: "users" }, {})
+    ).resolves.toEqual([2]);
+  });
+
+  it("emits every value of streaming replies", async () => {
+    await expect(collect(connection, "users.watch", {})).resolves.toEqual([
+      1, 2, 3,
+    ]);
+  });
+
+  it("fails messages without a handler", async () => {
+    await expect(collect(connection, "users.missing", {})).rejects.toBe(
+      "There is no matching message handler defined in the remote service."
+    );
+  });
+
+  it("publishes events", async () => {
+    await lastValueFrom(
+      connection.emit("users.user-deleted", { id: 1, name: NAME }),
+      {
+        defaultValue: undefined,
+      }
+    );
+    // Events aren't acknowledged, a message sent after the event is handled after it
+    await collect(connection, "users.get", 1);
+    expect(events).toEqual([{ id: 1, name: NAME }]);
+  });
+
+  it("rejects connecting to a closed port", async () => {
+    const closed = net.createServer();
+    await new Promise<void>((resolve) =>
+      closed.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    await expect(
+      createTcpConnection({ host: "127.0.0.1", port }).connect()
+    ).rejects.toMatchObject({ code: "ECONNREFUSED" });
+  });
+});
+
+const bulk = (value: string) => `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+
+/** Parses a command of the client, an array of bulk strings. Undefined if the buffer ends before it does */
+function parseCommand(
+  buffer: Buffer
+): [args: string[], end: number] | undefined {
+  let offset = 0;
+  const readLine = () => {
+    const end = buffer.indexOf("\r\n", offset);
+    if (end < 0) return;
+    const line = buffer.toString("utf8", offset + 1, end);
+    offset = end + 2;
+    return line;
+  };
+
+  const count = readLine();
+  if (count === undefined) return;
+  const args: string[] = [];
+  for (let i = 0; i < Number(count); i++) {
+    const length = Number(readLine());
+    if (Number.isNaN(length) || buffer.length < offset + length + 2) return;
+    args.push(buffer.toString("utf8", offset, offset + length));
+    offset += length + 2;
+  }
+  return [args, offset];
+}
+
+/** Redis server speaking just enough RESP for the client: AUTH, PUBLISH, SUBSCRIBE and UNSUBSCRIBE */
+async function createRedisServer(password: string) {
+  const subscribers = new Map<string, Set<net.Socket>>();
+  const published: { channel: string; message: unknown }[] = [];
+  /** Replies to the messages published to a channel, like a Nest Redis server */
+  const handlers = new Map<string, (data: any) => unknown[]>();
+
+  const publish = (channel: string, message: string) => {
+    const sockets = subscribers.get(channel) ?? new Set();
+    for (const socket of sockets) {
+      socket.write(`*3\r\n${bulk("message")}${bulk(channel)}${bulk(message)}`);
+    }
+    return sockets.size;
+  };
+
+  const execute = (socket: net.Socket, [name, ...args]: string[]) => {
+    switch (name) {
+      case "AUTH":
+        return args.at(-1) == password
+          ? "+OK\r\n"
+          : "-WRONGPASS invalid username-password pair\r\n";
+      case "SUBSCRIBE":
+      case "UNSUBSCRIBE": {
+        const [channel] = args;
+        const sockets = subscribers.get(channel) ?? new Set();
+        if (name == "SUBSCRIBE") sockets.add(socket);
+        else sockets.delete(socket);
+        subscribers.set(channel, sockets);
+        return `*3\r\n${bulk(name.toLowerCase())}${bulk(channel)}:${
+          sockets.size
+        }\r\n`;
+      }
+      case "PUBLISH": {
+        const [channel, message] = args;
+        const packet = JSON.parse(message);
+        published.push({ channel, message: packet });
+        const replies = handlers.get(channel)?.(packet.data) ?? [];
+        setImmediate(() =>
+          replies.forEach((response, i) =>
+            publish(
+              `${channel}.reply`,
+              JSON.stringify({
+                id: packet.id,
+                response,
+                isDisposed: i == replies.length - 1,
+              })
+            )
+          )
+        );
+        return `:${subscribers.get(channel)?.size ?? 0}\r\n`;
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    let buffer = Buffer.alloc(0);
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (let parsed; (parsed = parseCommand(buffer)); ) {
+        buffer = buffer.subarray(parsed[1]);
+        socket.write(execute(socket, parsed[0]));
+      }
+    });
+    socket.on("close", () =>
+      subscribers.forEach((sockets) => sockets.delete(socket))
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    published,
+    handlers,
+    subscribers,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+describe("Redis connection", () => {
+  let redis: Awaited<ReturnType<typeof createRedisServer>>;
+  let connection: StandaloneConnection;
+
+  beforeAll(async () => {
+    redis = await createRedisServer("secret");
+    redis.handlers.set("users.get", (id: number) => [{ id, name: NAME }]);
+    redis.handlers.set('{"cmd":"count","service":"users"}', () => [2]);
+    redis.handlers.set("users.watch", () => [1, 2, 3]);
+    connection = createRedisConnection({
+      host: "127.0.0.1",
+      port: redis.port,
+      password: "secret",
+    });
+    await connection.connect();
+  });
+
+  afterAll(async () => {
+    await connection.close();
+    await redis.close();
+  });
+
+  it("publishes messages to the channel of their pattern and replies from its reply channel", async () => {
+    await expect(collect(connection, "users.get", 1)).resolves.toEqual([
+      { id: 1, name: NAME },
+    ]);
+    expect(redis.published.at(-1)).toEqual({
+      channel: "users.get",
+      message: { pattern: "users.get", data: 1, id: expect.any(String) },
+    });
+  });
+
+  it("routes object patterns as JSON with sorted keys, like Nest", async () => {
+    await expect(
+      collect(connection, { service: "users", cmd: "count" }, {})
+    ).resolves.toEqual([2]);
+  });
+
+  it("emits every value of streaming replies and unsubscribes once replied", async () => {
+    await expect(collect(connection, "users.watch", {})).resolves.toEqual([
+      1, 2, 3,
+    ]);
+    // Unsubscribing isn't awaited by the call
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(redis.subscribers.get("users.watch.reply")?.size).toBe(0);
+  });
+
+  it("publishes events without an id", async () => {
+    await lastValueFrom(connection.emit("users.user-deleted", { id: 1 }), {
+      defaultValue: undefined,
+    });
+    expect(redis.published.at(-1)).toEqual({
+      channel: "users.user-deleted",
+      message: { pattern: "users.user-deleted", data: { id: 1 } },
+    });
+  });
+
+  it("rejects connecting with a wrong password", async () => {
+    await expect(
+      createRedisConnection({
+        host: "127.0.0.1",
+        port: redis.port,
+        password: "wrong",
+      }).connect()
+    ).rejects.toThrow("WRONGPASS");
+  });
+});
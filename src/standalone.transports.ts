@@ -0,0 +1,432 @@
+import { randomUUID } from "node:crypto";
+import * as net from "node:net";
+import { StringDecoder } from "node:string_decoder";
+import { Observable, type Subscriber } from "rxjs";
+
+/** Connection to a service that speaks the wire protocol of a Nest transport without a Nest client */
+export interface StandaloneConnection {
+  /** Connects unless connected, after the connection dropped it reconnects */
+  connect(): Promise<void>;
+  /** Sends a message and emits the values of its reply */
+  send(pattern: unknown, data: unknown): Observable<unknown>;
+  /** Publishes an event, completes once it is sent */
+  emit(pattern: unknown, data: unknown): Observable<never>;
+  close(): Promise<void>;
+}
+
+export interface TcpConnectionOptions {
+  host?: string;
+  port?: number;
+}
+
+export interface RedisConnectionOptions {
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string;
+}
+
+/** Reply to a message, one per value of the reply of the handler. The last one is disposed */
+interface ReplyPacket {
+  id: string;
+  response?: unknown;
+  err?: unknown;
+  isDisposed?: boolean;
+}
+
+/** Route of a pattern like Nest builds it: strings as they are, objects as JSON with sorted keys */
+function normalizePattern(pattern: unknown): string {
+  if (typeof pattern == "string" || typeof pattern == "number") {
+    return `${pattern}`;
+  }
+  if (typeof pattern != "object" || pattern === null) return String(pattern);
+
+  const escape = (s: string) => s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  const parts = Object.keys(pattern)
+    .sort((a, b) => a.localeCompare(b))
+    .map((key) => {
+      const value = (pattern as Record<string, unknown>)[key];
+      const route =
+        typeof value == "string"
+          ? `"${escape(value)}"`
+          : normalizePattern(value);
+      return `"${escape(key)}":${route}`;
+    });
+  return `{${parts.join(",")}}`;
+}
+
+/** Calls waiting for replies by packet id, answered like Nest clients do */
+function createReplyRouter() {
+  const calls = new Map<string, Subscriber<unknown>>();
+
+  return {
+    register(id: string, subscriber: Subscriber<unknown>) {
+      calls.set(id, subscriber);
+      return () => {
+        calls.delete(id);
+      };
+    },
+    route({ id, response, err, isDisposed }: ReplyPacket) {
+      const subscriber = calls.get(id);
+      if (!subscriber) return;
+      if (err) return subscriber.error(err);
+      if (!isDisposed) return subscriber.next(response);
+      if (response !== undefined) subscriber.next(response);
+      subscriber.complete();
+    },
+    /** Fails the pending calls, e.g. when the connection closes */
+    failAll(error: Error) {
+      const pending = [...calls.values()];
+      calls.clear();
+      for (const subscriber of pending) subscriber.error(error);
+    },
+  };
+}
+
+/** Opens a socket, rejecting with the connection error, e.g. `ECONNREFUSED` */
+function openSocket(host: string, port: number) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = net.connect(port, host);
+    socket.once("error", reject);
+    socket.once("connect", () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+  });
+}
+
+/**
+ * Speaks the protocol of `Transport.TCP`: JSON packets prefixed with their length and `#`.
+ * Messages are `{ pattern, data, id }` packets answered by replies with the same id, events have no id.
+ */
+export function createTcpConnection({
+  host = "localhost",
+  port = 3000,
+}: TcpConnectionOptions = {}): StandaloneConnection {
+  const replies = createReplyRouter();
+  let connection: Promise<net.Socket> | undefined;
+  let socket: net.Socket | undefined;
+
+  const readFrames = (target: net.Socket) => {
+    // Lengths count the characters of the JSON, not its bytes
+    const decoder = new StringDecoder("utf8");
+    let buffer = "";
+    let length: number | undefined;
+
+    target.on("data", (chunk: Buffer) => {
+      buffer += decoder.write(chunk);
+      for (;;) {
+        if (length === undefined) {
+          const i = buffer.indexOf("#");
+          if (i < 0) return;
+          length = Number(buffer.slice(0, i));
+          buffer = buffer.slice(i + 1);
+          if (!Number.isInteger(length)) {
+            target.destroy(new Error(`Corrupted packet length`));
+            return;
+          }
+        }
+        if (buffer.length < length) return;
+        const packet = buffer.slice(0, length);
+        buffer = buffer.slice(length);
+        length = undefined;
+        try {
+          replies.route(JSON.parse(packet));
+        } catch (error) {
+          target.destroy(error as Error);
+          return;
+        }
+      }
+    });
+  };
+
+  const write = (packet: object) =>
+    new Promise<void>((resolve, reject) => {
+      if (!socket) return reject(new Error("Connection closed"));
+      const json = JSON.stringify(packet);
+      socket.write(`${json.length}#${json}`, (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+
+  return {
+    async connect() {
+      connection ??= openSocket(host, port).then((opened) => {
+        socket = opened;
+        readFrames(opened);
+        // Errors are followed by "close", which fails the pending calls
+        opened.on("error", () => {});
+        opened.on("close", () => {
+          // A socket closed by `close()` may be replaced already
+          if (socket !== opened) return;
+          socket = connection = undefined;
+          replies.failAll(new Error("Connection closed"));
+        });
+        return opened;
+      });
+      connection.catch(() => (connection = undefined));
+      await connection;
+    },
+    send(pattern, data) {
+      return new Observable((subscriber) => {
+        const id = randomUUID();
+        const unregister = replies.register(id, subscriber);
+        write({ pattern, data, id }).catch((error) => subscriber.error(error));
+        return unregister;
+      });
+    },
+    emit(pattern, data) {
+      return new Observable((subscriber) => {
+        write({ pattern: normalizePattern(pattern), data }).then(
+          () => subscriber.complete(),
+          (error) => subscriber.error(error)
+        );
+      });
+    },
+    async close() {
+      socket?.end();
+      socket = connection = undefined;
+      replies.failAll(new Error("Connection closed"));
+    },
+  };
+}
+
+type RespValue = string | number | null | Error | RespValue[];
+
+/** Parses the RESP value at `offset`, undefined if the buffer ends before it does */
+function parseResp(
+  buffer: Buffer,
+  offset: number
+): [value: RespValue, end: number] | undefined {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd < 0) return;
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (String.fromCharCode(buffer[offset])) {
+    case "+":
+      return [line, next];
+    case "-":
+      return [new Error(line), next];
+    case ":":
+      return [Number(line), next];
+    case "$": {
+      const length = Number(line);
+      if (length < 0) return [null, next];
+      if (buffer.length < next + length + 2) return;
+      return [buffer.toString("utf8", next, next + length), next + length + 2];
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) return [null, next];
+      const items: RespValue[] = [];
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const parsed = parseResp(buffer, end);
+        if (!parsed) return;
+        items.push(parsed[0]);
+        end = parsed[1];
+      }
+      return [items, end];
+    }
+    default:
+      throw new Error(`Unexpected Redis reply "${line}"`);
+  }
+}
+
+function encodeCommand(args: string[]) {
+  return `*${args.length}\r\n${args
+    .map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`)
+    .join("")}`;
+}
+
+/** Connection to Redis answering commands in order. Messages of subscribed channels are passed to `onMessage` */
+async function openRedisSocket(
+  {
+    host = "localhost",
+    port = 6379,
+    username,
+    password,
+  }: RedisConnectionOptions,
+  onMessage: (channel: string, message: string) => void,
+  onClose: () => void
+) {
+  const socket = await openSocket(host, port);
+  const pending: {
+    resolve: (value: RespValue) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  let buffer = Buffer.alloc(0);
+
+  const read = () => {
+    for (let parsed; (parsed = parseResp(buffer, 0)); ) {
+      const [value] = parsed;
+      buffer = buffer.subarray(parsed[1]);
+      if (Array.isArray(value) && value[0] == "message") {
+        onMessage(String(value[1]), String(value[2]));
+        continue;
+      }
+      const command = pending.shift();
+      if (value instanceof Error) command?.reject(value);
+      else command?.resolve(value);
+    }
+  };
+  socket.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    try {
+      read();
+    } catch (error) {
+      socket.destroy(error as Error);
+    }
+  });
+  socket.on("error", () => {});
+  socket.on("close", () => {
+    for (const command of pending.splice(0)) {
+      command.reject(new Error("Connection closed"));
+    }
+    onClose();
+  });
+
+  const command = (...args: string[]) =>
+    new Promise<RespValue>((resolve, reject) => {
+      if (socket.destroyed) return reject(new Error("Connection closed"));
+      pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+
+  if (password) {
+    await command("AUTH", ...(username ? [username] : []), password).catch(
+      (error) => {
+        socket.destroy();
+        throw error;
+      }
+    );
+  }
+  return { command, close: () => socket.end() };
+}
+
+type RedisSocket = Awaited<ReturnType<typeof openRedisSocket>>;
+
+/**
+ * Speaks the protocol of `Transport.REDIS`: messages are published to the channel of their pattern and replied to on `<pattern>.reply`.
+ * Uses one connection for publishing and one subscribed to the reply channels of pending calls.
+ */
+export function createRedisConnection(
+  options: RedisConnectionOptions = {}
+): StandaloneConnection {
+  const replies = createReplyRouter();
+  let connection: Promise<unknown> | undefined;
+  let sockets: [pub: RedisSocket, sub: RedisSocket] | undefined;
+  // Pending calls of each reply channel, which is subscribed while there are any
+  const subscriptions = new Map<
+    string,
+    { count: number; subscribed: Promise<unknown> }
+  >();
+
+  const onMessage = (_channel: string, message: string) => {
+    let packet: ReplyPacket;
+    try {
+      packet = JSON.parse(message);
+    } catch {
+      return;
+    }
+    replies.route(packet);
+  };
+  const disconnect = () => {
+    sockets?.forEach((socket) => socket.close());
+    sockets = connection = undefined;
+    subscriptions.clear();
+    replies.failAll(new Error("Connection closed"));
+  };
+
+  /** Opens both connections, closing the one that opened if the other didn't */
+  const open = async () => {
+    let opened: [pub: RedisSocket, sub: RedisSocket] | undefined;
+    // Either connection closing closes both, unless they were replaced already
+    const onClose = () => {
+      if (opened && sockets === opened) disconnect();
+    };
+    const results = await Promise.allSettled([
+      openRedisSocket(options, onMessage, onClose),
+      openRedisSocket(options, onMessage, onClose),
+    ]);
+    const failed = results.find((result) => result.status == "rejected");
+    if (failed) {
+      for (const result of results) {
+        if (result.status == "fulfilled") result.value.close();
+      }
+      throw failed.reason;
+    }
+    opened = results.map(
+      (result) => (result as PromiseFulfilledResult<RedisSocket>).value
+    ) as [RedisSocket, RedisSocket];
+    sockets = opened;
+  };
+
+  const subscribe = (sub: RedisSocket, channel: string) => {
+    const subscription = subscriptions.get(channel) ?? {
+      count: 0,
+      subscribed: sub.command("SUBSCRIBE", channel),
+    };
+    subscription.count++;
+    subscriptions.set(channel, subscription);
+    return subscription.subscribed;
+  };
+  const unsubscribe = (sub: RedisSocket, channel: string) => {
+    const subscription = subscriptions.get(channel);
+    if (!subscription || --subscription.count > 0) return;
+    subscriptions.delete(channel);
+    sub.command("UNSUBSCRIBE", channel).catch(() => {});
+  };
+
+  return {
+    async connect() {
+      connection ??= open();
+      connection.catch(() => (connection = undefined));
+      await connection;
+    },
+    send(pattern, data) {
+      return new Observable((subscriber) => {
+        if (!sockets) {
+          subscriber.error(new Error("Connection closed"));
+          return;
+        }
+        const [pub, sub] = sockets;
+        const route = normalizePattern(pattern);
+        const channel = `${route}.reply`;
+        const id = randomUUID();
+        const unregister = replies.register(id, subscriber);
+        subscribe(sub, channel)
+          .then(() =>
+            pub.command("PUBLISH", route, JSON.stringify({ pattern, data, id }))
+          )
+          .catch((error) => subscriber.error(error));
+        return () => {
+          unregister();
+          unsubscribe(sub, channel);
+        };
+      });
+    },
+    emit(pattern, data) {
+      return new Observable((subscriber) => {
+        if (!sockets) {
+          subscriber.error(new Error("Connection closed"));
+          return;
+        }
+        sockets[0]
+          .command(
+            "PUBLISH",
+            normalizePattern(pattern),
+            JSON.stringify({ pattern, data })
+          )
+          .then(
+            () => subscriber.complete(),
+            (error) => subscriber.error(error)
+          );
+      });
+    },
+    async close() {
+      disconnect();
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import {
+  ClientGrpcProxy,
+  ClientKafka,
+  ClientTCP,
+  MqttRecord,
+  RmqRecord,
+} from "@nestjs/microservices";
+import { lastValueFrom, of } from "rxjs";
+import { InProcessClient, InProcessServer } from "./in-process.transport";
+import {
+  createTransportSender,
+  getTransportName,
+  subscribeToReplies,
+  toTransportRecord,
+} from "./transports";
+
+/** Client of a transport whose package isn't installed, with its methods replaced */
+function fakeClient<T extends object>(
+  Client: abstract new (...args: any[]) => T,
+  methods: Partial<Record<keyof T, unknown>>
+): T {
+  return Object.assign(Object.create(Client.prototype), methods);
+}
+
+describe("toTransportRecord", () => {
+  const data = { id: 1 };
+  const headers = { "x-request-id": "42" };
+
+  it("wraps Kafka payloads in a record, even without options", () => {
+    expect(toTransportRecord("kafka", data, {})).toEqual({
+      headers: undefined,
+      value: data,
+    });
+    expect(
+      toTransportRecord("kafka", data, {
+        headers,
+        kafka: { key: "1", partition: 2 },
+      })
+    ).toEqual({ key: "1", partition: 2, headers, value: data });
+  });
+
+  it("wraps RabbitMQ and MQTT payloads in records only with options", () => {
+    expect(toTransportRecord("rmq", data, {})).toBe(data);
+    expect(
+      toTransportRecord("rmq", data, { headers, rmq: { priority: 1 } })
+    ).toEqual(new RmqRecord(data, { priority: 1, headers }));
+
+    expect(toTransportRecord("mqtt", data, {})).toBe(data);
+    expect(
+      toTransportRecord("mqtt", data, { headers, mqtt: { qos: 1 } })
+    ).toEqual(
+      new MqttRecord(data, {
+        qos: 1,
+        properties: { userProperties: headers },
+      })
+    );
+  });
+
+  it("sends plain payloads on transports without headers", () => {
+    expect(toTransportRecord("nats", data, {})).toBe(data);
+    expect(toTransportRecord("tcp", data, { headers })).toBe(data);
+    expect(toTransportRecord("redis", data, { headers })).toBe(data);
+    expect(toTransportRecord(undefined, data, { headers })).toBe(data);
+  });
+});
+
+describe("getTransportName", () => {
+  it("recognizes the clients of the transports", () => {
+    expect(getTransportName(new ClientTCP({}))).toBe("tcp");
+    expect(getTransportName(fakeClient(ClientKafka, {}))).toBe("kafka");
+    expect(
+      getTransportName(new InProcessClient(new InProcessServer()))
+    ).toBeUndefined();
+  });
+});
+
+describe("subscribeToReplies", () => {
+  it("subscribes Kafka clients to the reply topics of the patterns", () => {
+    const subscribeToResponseOf = jest.fn();
+    const client = fakeClient(ClientKafka, { subscribeToResponseOf });
+
+    subscribeToReplies(client, ["users.get", "users.list"]);
+
+    expect(subscribeToResponseOf.mock.calls).toEqual([
+      ["users.get"],
+      ["users.list"],
+    ]);
+  });
+
+  it("leaves other clients alone", () => {
+    const client = new ClientTCP({});
+    const send = jest.spyOn(client, "send");
+
+    subscribeToReplies(client, ["users.get"]);
+
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe("createTransportSender", () => {
+  it("sends messages and emits events with the record of the transport", async () => {
+    const client = new ClientTCP({});
+    const send = jest.spyOn(client, "send").mockReturnValue(of("reply"));
+    const emit = jest.spyOn(client, "emit").mockReturnValue(of(undefined));
+    const sendRecord = createTransportSender(client);
+
+    await expect(
+      lastValueFrom(sendRecord("message", "users.get", 1, {}))
+    ).resolves.toBe("reply");
+    await lastValueFrom(sendRecord("event", "users.created", { id: 1 }, {}));
+
+    expect(send).toHaveBeenCalledWith("users.get", 1);
+    expect(emit).toHaveBeenCalledWith("users.created", { id: 1 });
+  });
+
+  describe("on gRPC clients", () => {
+    const getUser = jest.fn((data: unknown) => of({ user: data }));
+    const getService = jest.fn(() => ({ getUser }));
+    const sendRecord = createTransportSender(
+      fakeClient(ClientGrpcProxy, { getService })
+    );
+    const pattern = { service: "UsersService", rpc: "getUser" };
+
+    it("calls the method of the service, which is looked up once", async () => {
+      await expect(
+        lastValueFrom(sendRecord("message", pattern, { id: 1 }, {}))
+      ).resolves.toEqual({ user: { id: 1 } });
+      await lastValueFrom(sendRecord("message", pattern, { id: 2 }, {}));
+
+      expect(getService).toHaveBeenCalledTimes(1);
+      expect(getService).toHaveBeenCalledWith("UsersService");
+      expect(getUser).toHaveBeenLastCalledWith({ id: 2 }, undefined);
+    });
+
+    it("fails calls of methods the service doesn't have", async () => {
+      await expect(
+        lastValueFrom(
+          sendRecord("message", { ...pattern, rpc: "deleteUser" }, {}, {})
+        )
+      ).rejects.toThrow(
+        `Method "deleteUser" not found in gRPC service "UsersService"`
+      );
+    });
+
+    it("fails events", async () => {
+      await expect(
+        lastValueFrom(sendRecord("event", pattern, {}, {}))
+      ).rejects.toThrow("gRPC services have no events");
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { Observable, throwError } from "rxjs";
+import { loadPackage } from "@nestjs/common/utils/load-package.util";
+import {
+  ClientGrpcProxy,
+  ClientKafka,
+  ClientMqtt,
+  ClientNats,
+  ClientRMQ,
+  ClientRedis,
+  ClientTCP,
+  MqttRecord,
+  NatsRecord,
+  RmqRecord,
+  type ClientProxy,
+  type MqttRecordOptions,
+  type RmqRecordOptions,
+} from "@nestjs/microservices";
+
+export interface HeaderOptions {
+  /** Headers of the message, sent as metadata on gRPC and as user properties on MQTT */
+  headers?: Record<string, string>;
+}
+
+export interface KafkaCallOptions {
+  /** Key of the record, records with the same key go to the same partition */
+  key?: string | Buffer;
+  partition?: number;
+}
+
+export type RmqCallOptions = Omit<RmqRecordOptions, "headers">;
+
+export type MqttCallOptions = Pick<MqttRecordOptions, "qos" | "retain">;
+
+/** Call options specific to each transport */
+export interface TransportOptions {
+  tcp: {};
+  redis: {};
+  nats: HeaderOptions;
+  mqtt: HeaderOptions & { mqtt?: MqttCallOptions };
+  grpc: HeaderOptions;
+  rmq: HeaderOptions & { rmq?: RmqCallOptions };
+  kafka: HeaderOptions & { kafka?: KafkaCallOptions };
+}
+
+export type TransportName = keyof TransportOptions;
+
+/** Call options of every transport, for clients whose transport isn't known when generating */
+export interface AnyTransportOptions extends HeaderOptions {
+  mqtt?: MqttCallOptions;
+  rmq?: RmqCallOptions;
+  kafka?: KafkaCallOptions;
+}
+
+/** Pattern of a `@GrpcMethod` handler */
+export interface GrpcPattern {
+  service: string;
+  rpc: string;
+}
+
+type GrpcService = Record<
+  string,
+  ((data: unknown, metadata?: unknown) => Observable<unknown>) | undefined
+>;
+
+const CLIENT_CLASSES: [
+  TransportName,
+  abstract new (...args: any[]) => object
+][] = [
+  ["tcp", ClientTCP],
+  ["redis", ClientRedis],
+  ["nats", ClientNats],
+  ["mqtt", ClientMqtt],
+  ["grpc", ClientGrpcProxy],
+  ["rmq", ClientRMQ],
+  ["kafka", ClientKafka],
+];
+
+/** Transport of a client created by `ClientProxyFactory`, undefined for custom clients */
+export function getTransportName(client: ClientProxy) {
+  return CLIENT_CLASSES.find(([, Client]) => client instanceof Client)?.[0];
+}
+
+/** Connects the client, gRPC clients connect on their own when called */
+export function connectClient(client: ClientProxy): Promise<unknown> {
+  return client instanceof ClientGrpcProxy
+    ? Promise.resolve()
+    : client.connect();
+}
+
+/**
+ * Subscribes a Kafka client to the reply topics of message patterns, which it only consumes if subscribed before connecting.
+ * Other clients receive replies without subscribing.
+ */
+export function subscribeToReplies(client: ClientProxy, patterns: unknown[]) {
+  if (!(client instanceof ClientKafka)) return;
+  for (const pattern of patterns) client.subscribeToResponseOf(pattern);
+}
+
+function toNatsHeaders(headers: Record<string, string>) {
+  const nats = loadPackage("nats", ClientNats.name);
+  const natsHeaders = nats.headers();
+  for (const [key, value] of Object.entries(headers)) {
+    natsHeaders.set(key, value);
+  }
+  return natsHeaders;
+}
+
+function toGrpcMetadata(headers: Record<string, string>) {
+  const { Metadata } = loadPackage("@grpc/grpc-js", ClientGrpcProxy.name);
+  const metadata = new Metadata();
+  for (const [key, value] of Object.entries(headers)) {
+    metadata.set(key, value);
+  }
+  return metadata;
+}
+
+/** Data of a message with the options of its transport, e.g. a Kafka record with key and headers. TCP and Redis messages have no headers */
+export function toTransportRecord(
+  transport: TransportName | undefined,
+  data: unknown,
+  { headers, mqtt, rmq, kafka }: AnyTransportOptions
+): unknown {
+  switch (transport) {
+    case "kafka":
+      // Always a record, so that payloads with a `key` or `value` property aren't taken for one
+      return { ...kafka, headers, value: data };
+    case "rmq":
+      return rmq || headers ? new RmqRecord(data, { ...rmq, headers }) : data;
+    case "mqtt":
+      return mqtt || headers
+        ? new MqttRecord(data, {
+            ...mqtt,
+            properties: headers && { userProperties: headers },
+          })
+        : data;
+    case "nats":
+      return headers ? new NatsRecord(data, toNatsHeaders(headers)) : data;
+    default:
+      return data;
+  }
+}
+
+/** Sends messages and emits events with the client, using the options of its transport. gRPC methods are called on the services of the client */
+export function createTransportSender(client: ClientProxy) {
+  const transport = getTransportName(client);
+  const grpcServices = new Map<string, GrpcService>();
+
+  const callGrpc = (
+    grpcClient: ClientGrpcProxy,
+    pattern: GrpcPattern,
+    data: unknown,
+    headers?: Record<string, string>
+  ) => {
+    if (!grpcServices.has(pattern.service)) {
+      grpcServices.set(
+        pattern.service,
+        grpcClient.getService<GrpcService>(pattern.service)
+      );
+    }
+    const method = grpcServices.get(pattern.service)?.[pattern.rpc];
+    if (!method) {
+      return throwError(
+        () =>
+          new Error(
+            `Method "${pattern.rpc}" not found in gRPC service "${pattern.service}"`
+          )
+      );
+    }
+    return method(data, headers && toGrpcMetadata(headers));
+  };
+
+  return (
+    kind: "message" | "event",
+    pattern: unknown,
+    data: unknown,
+    options: AnyTransportOptions
+  ): Observable<unknown> => {
+    if (client instanceof ClientGrpcProxy) {
+      return kind == "event"
+        ? throwError(() => new Error("gRPC services have no events"))
+        : callGrpc(client, pattern as GrpcPattern, data, options.headers);
+    }
+    const record = toTransportRecord(transport, data, options);
+    return kind == "event"
+      ? client.emit(pattern, record)
+      : client.send(pattern, record);
+  };
+}
@@ -0,0 +1,74 @@
+import * as path from "node:path";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import { extractServices, generateClients } from "./generator";
+
+const CONTROLLER = `
+import { Controller } from "@nestjs/common";
+import { MessagePattern, Payload } from "@nestjs/microservices";
+import { Headers, Role } from "./headers.dto";
+
+@Controller()
+export class UsersController {
+  @MessagePattern("users.headers")
+  headers(@Payload() headers: Headers): Role {
+    return Role.Admin;
+  }
+}
+`;
+
+const DTO = `
+export enum Role {
+  Admin = "admin",
+  "read-only" = "read-only",
+}
+
+export class Headers {
+  "content-type"?: string;
+  "x-request-id": string;
+  accept!: string;
+  private secret = "";
+  format() {
+    return this.accept;
+  }
+}
+`;
+
+describe("standalone types", () => {
+  let root: string;
+  let proxy: string | undefined;
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/users/src/users.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { UsersController } from "./users.controller";
+        @Module({ controllers: [UsersController] })
+        export class UsersModule {}
+      `,
+      "apps/users/src/users.controller.ts": CONTROLLER,
+      "apps/users/src/headers.dto.ts": DTO,
+    });
+    const config = { root, standaloneTypes: true };
+    const files = await generateClients(await extractServices(config), config);
+    proxy = files.get(
+      path.join(root, "apps/users/src/users.proxy.generated.ts")
+    );
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  it("quotes properties of declared DTOs that aren't identifiers", () => {
+    expect(proxy).toContain(`"content-type"?: string;`);
+    expect(proxy).toContain(`"x-request-id": string;`);
+    expect(proxy).toContain(`accept: string;`);
+  });
+
+  it("declares classes as interfaces without methods and private members, and enums with their values", () => {
+    expect(proxy).toMatch(/export interface Headers \{/);
+    expect(proxy).not.toContain("secret");
+    expect(proxy).not.toContain("format");
+    expect(proxy).toContain(`Admin = "admin"`);
+    expect(proxy).toContain(`"read-only" = "read-only"`);
+    expect(proxy).not.toContain("import(");
+  });
+});
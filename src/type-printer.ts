@@ -0,0 +1,182 @@
+import * as path from "node:path";
+import * as R from "remeda";
+import {
+  Node,
+  Project,
+  Type,
+  TypeFormatFlags,
+  TypeParameterDeclaration,
+} from "ts-morph";
+
+const FORMAT_FLAGS =
+  TypeFormatFlags.UseTypeOfFunction |
+  TypeFormatFlags.NoTruncation |
+  TypeFormatFlags.UseFullyQualifiedType |
+  TypeFormatFlags.WriteTypeArgumentsOfSignature;
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".d.ts", "/index.ts", "/index.d.ts"];
+
+const isInNodeModules = (filePath: string) =>
+  filePath.split("/").includes("node_modules");
+
+/** Module specifier of a declaration file: relative to the workspace root, or the package for files in node_modules */
+function getModuleSpecifier(root: string, filePath: string) {
+  if (isInNodeModules(filePath)) {
+    const parts = filePath.split("/node_modules/").at(-1).split("/");
+    const packageName = parts.slice(0, parts[0].startsWith("@") ? 2 : 1);
+    return packageName.join("/").replace(/^@types\//, "");
+  }
+  return path.relative(root, filePath).split(path.sep).join("/");
+}
+
+/** Removes `undefined` from the type of an optional property, keeping unions like enums intact where possible */
+function withoutUndefined(type: Type) {
+  const members = type.isUnion() ? type.getUnionTypes() : [];
+  if (
+    !members.some((t) => t.isUndefined()) ||
+    members.some((t) => t.isNull())
+  ) {
+    return type;
+  }
+  return type.getNonNullableType();
+}
+
+/** Name of a property in a type literal or interface, quoted unless it is an identifier, e.g. `"content-type"` */
+export function printPropertyName(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Prints types so that they are valid in any file. Named types are referenced with `import("...")`,
+ * or in standalone mode declared in the printed file itself unless they come from node_modules.
+ */
+export function createTypePrinter(
+  root: string,
+  project: Project,
+  {
+    standalone = false,
+    reservedNames = [],
+  }: { standalone?: boolean; reservedNames?: string[] } = {}
+) {
+  /** Local names of inlined declarations by `<file>#<name>` */
+  const localNames = new Map<string, string>();
+  const pending: { name: string; declaration: Node }[] = [];
+  const declarations: string[] = [];
+
+  const findDeclaration = (filePath: string, name: string) =>
+    SOURCE_EXTENSIONS.map((ext) => project.getSourceFile(filePath + ext))
+      .find(R.isDefined)
+      ?.getExportedDeclarations()
+      .get(name)?.[0];
+
+  const getLocalName = (filePath: string, name: string) => {
+    const key = `${filePath}#${name}`;
+    const existing = localNames.get(key);
+    if (existing) return existing;
+
+    const declaration = findDeclaration(filePath, name);
+    if (!declaration) return;
+    const taken = new Set([...reservedNames, ...localNames.values()]);
+    let localName = name;
+    for (let i = 2; taken.has(localName); i++) localName = `${name}${i}`;
+    localNames.set(key, localName);
+    pending.push({ name: localName, declaration });
+    return localName;
+  };
+
+  const print = (type: Type, flags = FORMAT_FLAGS) =>
+    type
+      .getText(undefined, flags)
+      .replace(/import\("([^"]+)"\)\.([\w$]+)/g, (_, filePath, name) => {
+        const localName =
+          standalone &&
+          !isInNodeModules(filePath) &&
+          getLocalName(filePath, name);
+        return (
+          localName || `import("${getModuleSpecifier(root, filePath)}").${name}`
+        );
+      });
+
+  const printTypeParameters = (typeParameters: TypeParameterDeclaration[]) => {
+    if (typeParameters.length == 0) return "";
+    const params = typeParameters.map((param) => {
+      const constraint = param.getConstraint();
+      const defaultType = param.getDefault();
+      return [
+        param.getName(),
+        constraint && `extends ${print(constraint.getType())}`,
+        defaultType && `= ${print(defaultType.getType())}`,
+      ]
+        .filter(R.isTruthy)
+        .join(" ");
+    });
+    return `<${params.join(", ")}>`;
+  };
+
+  /** Declares the serialized shape of a type: enums keep their values, classes become interfaces without methods */
+  const renderDeclaration = (name: string, declaration: Node) => {
+    if (Node.isEnumDeclaration(declaration)) {
+      const members = declaration
+        .getMembers()
+        .map(
+          (member) =>
+            `${member.getName()} = ${JSON.stringify(member.getValue())}`
+        );
+      return `export enum ${name} {${members.join(", ")}}`;
+    }
+
+    if (Node.isTypeAliasDeclaration(declaration)) {
+      const aliased = print(
+        declaration.getType(),
+        FORMAT_FLAGS | TypeFormatFlags.InTypeAlias
+      );
+      return `export type ${name}${printTypeParameters(
+        declaration.getTypeParameters()
+      )} = ${aliased};`;
+    }
+
+    if (
+      Node.isInterfaceDeclaration(declaration) ||
+      Node.isClassDeclaration(declaration)
+    ) {
+      const properties = declaration
+        .getType()
+        .getProperties()
+        .filter((prop) => {
+          const valueDeclaration = prop.getValueDeclaration();
+          const isPrivate =
+            Node.isModifierable(valueDeclaration) &&
+            (valueDeclaration.hasModifier("private") ||
+              valueDeclaration.hasModifier("protected"));
+          const isMethod =
+            prop.getTypeAtLocation(declaration).getCallSignatures().length > 0;
+          return !isPrivate && !isMethod && !prop.getName().startsWith("#");
+        })
+        .map((prop) => {
+          const type = prop.getTypeAtLocation(declaration);
+          const key = printPropertyName(prop.getName());
+          return prop.isOptional()
+            ? `${key}?: ${print(withoutUndefined(type))};`
+            : `${key}: ${print(type)};`;
+        });
+      return `export interface ${name}${printTypeParameters(
+        declaration.getTypeParameters()
+      )} {${properties.join("\n")}}`;
+    }
+
+    return `export type ${name} = ${print(declaration.getType())};`;
+  };
+
+  /** Declarations of the types inlined by the printed types so far, including the types they reference */
+  const renderDeclarations = () => {
+    while (pending.length > 0) {
+      const { name, declaration } = pending.shift();
+      declarations.push(renderDeclaration(name, declaration));
+    }
+    return declarations;
+  };
+
+  return { print, printTypeParameters, renderDeclarations };
+}
+
+export type TypePrinter = ReturnType<typeof createTypePrinter>;
@@ -0,0 +1,194 @@
+import * as R from "remeda";
+import { Node, Type, ts } from "ts-morph";
+import { JsonSchema } from "./json-schema";
+
+const ANONYMOUS_SYMBOLS = ["__type", "__object"];
+
+function getName(type: Type) {
+  if (type.getTypeArguments().length > 0) return;
+  if (type.getAliasTypeArguments().length > 0) return;
+  const name = (type.getAliasSymbol() ?? type.getSymbol())?.getName();
+  return name && !ANONYMOUS_SYMBOLS.includes(name) ? name : undefined;
+}
+
+function literalValue(type: Type) {
+  if (type.isBooleanLiteral()) return type.getText() === "true";
+  const value = type.getLiteralValue();
+  // Bigint literals are serialized like other numbers
+  return typeof value === "object" ? Number(value.base10Value) : value;
+}
+
+/** Removes `undefined` from an optional property's type */
+function withoutUndefined(type: Type) {
+  if (!type.isUnion() || !type.getUnionTypes().some((t) => t.isUndefined())) {
+    return [type];
+  }
+  // Keeps unions like enums intact where possible
+  if (!type.getUnionTypes().some((t) => t.isNull())) {
+    return [type.getNonNullableType()];
+  }
+  return type.getUnionTypes().filter((t) => !t.isUndefined());
+}
+
+function createSchemaConverter(node: Node) {
+  const defs: Record<string, JsonSchema> = {};
+  const refs = new Map<ts.Type, string>();
+  const inlineStack = new Set<ts.Type>();
+
+  const define = (type: Type, name: string, build: () => JsonSchema) => {
+    const existing = refs.get(type.compilerType);
+    if (existing) return { $ref: `#/$defs/${existing}` };
+
+    let defName = name;
+    for (let i = 2; defName in defs; i++) defName = `${name}${i}`;
+    refs.set(type.compilerType, defName);
+    defs[defName] = {};
+    defs[defName] = build();
+    return { $ref: `#/$defs/${defName}` };
+  };
+
+  const convertUnion = (members: Type[]): JsonSchema => {
+    const hasTrue = members.some(
+      (t) => t.isBooleanLiteral() && literalValue(t)
+    );
+    const hasFalse = members.some(
+      (t) => t.isBooleanLiteral() && !literalValue(t)
+    );
+    const isBoolean = hasTrue && hasFalse;
+    const rest = isBoolean
+      ? members.filter((t) => !t.isBooleanLiteral())
+      : members;
+
+    if (rest.length > 0 && rest.every((t) => t.isLiteral() || t.isNull())) {
+      const values = rest.map((t) => (t.isNull() ? null : literalValue(t)));
+      const schema: JsonSchema = { enum: values };
+      return isBoolean ? { anyOf: [{ type: "boolean" }, schema] } : schema;
+    }
+
+    const schemas = rest.map(convert);
+    if (isBoolean) schemas.unshift({ type: "boolean" });
+    return schemas.length == 1 ? schemas[0] : { anyOf: schemas };
+  };
+
+  const convertObject = (type: Type): JsonSchema => {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const prop of type.getProperties()) {
+      const propType = prop.getTypeAtLocation(node);
+      // Methods are not serialized
+      if (propType.getCallSignatures().length > 0) continue;
+
+      const name = prop.getName();
+      if (prop.isOptional()) {
+        properties[name] = convertUnion(withoutUndefined(propType));
+      } else {
+        properties[name] = convert(propType);
+        required.push(name);
+      }
+    }
+
+    const indexType = type.getStringIndexType() ?? type.getNumberIndexType();
+    return {
+      type: "object",
+      properties,
+      ...(required.length > 0 && { required }),
+      ...(indexType && { additionalProperties: convert(indexType) }),
+    };
+  };
+
+  const convert = (type: Type): JsonSchema => {
+    if (type.isAny() || type.isUnknown() || type.isTypeParameter()) return {};
+    if (type.isNever()) return { not: {} };
+    if (type.isNull() || type.isUndefined() || type.isVoid()) {
+      return { type: "null" };
+    }
+    if (type.isEnum()) {
+      return define(type, getName(type), () => ({
+        enum: type.getUnionTypes().map(literalValue),
+      }));
+    }
+    if (type.isLiteral()) return { const: literalValue(type) };
+    if (type.isString() || type.isTemplateLiteral()) return { type: "string" };
+    if (type.isNumber()) return { type: "number" };
+    if (type.isBoolean()) return { type: "boolean" };
+    if (type.isBigInt()) return { type: "integer" };
+    if (type.isUnion()) return convertUnion(type.getUnionTypes());
+    if (type.isIntersection()) {
+      return { allOf: type.getIntersectionTypes().map(convert) };
+    }
+    if (type.isArray() || type.isReadonlyArray()) {
+      return { type: "array", items: convert(type.getArrayElementType()) };
+    }
+    if (type.isTuple()) {
+      const elements = type.getTupleElements();
+      return {
+        type: "array",
+        prefixItems: elements.map(convert),
+        minItems: elements.length,
+        maxItems: elements.length,
+      };
+    }
+    if (type.getSymbol()?.getName() === "Date") {
+      return { type: "string", format: "date-time" };
+    }
+    if (!type.isObject()) return {};
+
+    const name = getName(type);
+    if (name) return define(type, name, () => convertObject(type));
+
+    // Anonymous or generic types are inlined, recursion into them can't be described
+    if (inlineStack.has(type.compilerType)) return {};
+    inlineStack.add(type.compilerType);
+    const schema = convertObject(type);
+    inlineStack.delete(type.compilerType);
+    return schema;
+  };
+
+  return {
+    convert,
+    /** Converts the type of an optional property or parameter */
+    convertOptional: (type: Type) => convertUnion(withoutUndefined(type)),
+    /** Adds the definitions referenced by the schema */
+    withDefs: (schema: JsonSchema): JsonSchema =>
+      R.isEmpty(defs) ? schema : { ...schema, $defs: defs },
+  };
+}
+
+/**
+ * Describes the JSON serialized form of a type as a self-contained JSON Schema.
+ * Named object types and enums are put in `$defs` and referenced, which also covers recursive types.
+ */
+export function typeToSchema(type: Type, node: Node): JsonSchema {
+  const { convert, withDefs } = createSchemaConverter(node);
+  return withDefs(convert(type));
+}
+
+export interface PayloadPart {
+  type: Type;
+  /** Property of the payload the part describes, the whole payload if omitted */
+  key?: string;
+  isOptional: boolean;
+}
+
+/** Like `typeToSchema`, for a payload received by several handler parameters: all of the whole payload types and an object of the properties */
+export function payloadToSchema(parts: PayloadPart[], node: Node): JsonSchema {
+  const { convert, convertOptional, withDefs } = createSchemaConverter(node);
+  const [keyed, whole] = R.partition(parts, (part) => R.isDefined(part.key));
+  const schemas = whole.map((part) => convert(part.type));
+
+  if (keyed.length > 0) {
+    const required = keyed.filter((part) => !part.isOptional);
+    schemas.push({
+      type: "object",
+      properties: R.pullObject(
+        keyed,
+        (part) => part.key,
+        (part) =>
+          part.isOptional ? convertOptional(part.type) : convert(part.type)
+      ),
+      ...(required.length > 0 && { required: required.map((p) => p.key) }),
+    });
+  }
+  return withDefs(schemas.length == 1 ? schemas[0] : { allOf: schemas });
+}
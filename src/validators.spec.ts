@@ -0,0 +1,120 @@
+import * as path from "node:path";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import { resolveConfig } from "./config";
+import { extractServices } from "./generator";
+import { renderValidatorsFile } from "./validators";
+
+describe("renderValidatorsFile", () => {
+  let root: string;
+  let file: string;
+
+  beforeAll(async () => {
+    root = await createWorkspace({
+      "apps/users/src/users.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { UsersController } from "./users.controller";
+        import { UsersV2Controller } from "./users-v2.controller";
+        @Module({ controllers: [UsersController, UsersV2Controller] })
+        export class UsersModule {}
+      `,
+      "apps/users/src/users.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { EventPattern, MessagePattern, Payload } from "@nestjs/microservices";
+
+        @Controller()
+        export class UsersController {
+          @MessagePattern("users.get")
+          getUser(@Payload() id: number): void {}
+
+          @MessagePattern("users.rename")
+          rename(@Payload("id") id: number, @Payload("name") name?: string): void {}
+
+          @MessagePattern("users.count")
+          count(): number {
+            return 0;
+          }
+
+          @EventPattern("users.user-created")
+          onUserCreated(@Payload() user: { id: number }): void {}
+
+          @EventPattern("users.user-created")
+          auditUserCreated(@Payload("name") name: string): void {}
+        }
+      `,
+      "apps/users/src/users-v2.controller.ts": `
+        import { Controller } from "@nestjs/common";
+        import { MessagePattern, Payload } from "@nestjs/microservices";
+        import { ContractVersion } from "libs/proxies/src/client.service";
+
+        @Controller()
+        @ContractVersion(2)
+        export class UsersV2Controller {
+          @MessagePattern("users.get.v2")
+          getUser(@Payload() id: string): void {}
+        }
+      `,
+      "libs/proxies/src/client.service.ts": `
+        export type Options = {};
+        export function ContractVersion(_version: number): ClassDecorator & MethodDecorator {
+          return () => {};
+        }
+      `,
+    });
+    const config = resolveConfig({ root });
+    file = renderValidatorsFile(
+      config,
+      path.join(root, "libs/proxies/src/generated/validators.ts"),
+      await extractServices(config)
+    );
+  });
+
+  afterAll(() => removeWorkspace(root));
+
+  const payloadSchemas = () =>
+    JSON.parse(file.match(/ = (\{.*\});/s)![1]) as Record<
+      string,
+      Record<string, unknown>
+    >;
+
+  it("imports the schema type from next to the client service", () => {
+    expect(file).toContain(`import type { JsonSchema } from '../json-schema';`);
+  });
+
+  it("keys the payload schemas by service and client method", () => {
+    const { users } = payloadSchemas();
+
+    expect(users.rename).toEqual({
+      type: "object",
+      properties: { id: { type: "number" }, name: { type: "string" } },
+      required: ["id"],
+    });
+    // Methods without a payload have no schema
+    expect(users).not.toHaveProperty("count");
+  });
+
+  it("combines the payloads of the handlers of an event", () => {
+    expect(payloadSchemas().users.emitUserCreated).toEqual({
+      allOf: [
+        {
+          type: "object",
+          properties: { id: { type: "number" } },
+          required: ["id"],
+        },
+        {
+          type: "object",
+          properties: { name: { type: "string" } },
+          required: ["name"],
+        },
+      ],
+    });
+  });
+
+  it("keys the schemas of contract versions by version", () => {
+    const schemas = payloadSchemas();
+
+    expect(schemas.users.getUser).toEqual({ type: "string" });
+    expect(schemas.users["v1.getUser"]).toEqual({ type: "number" });
+    expect(schemas["users.v1"].getUser).toEqual({ type: "number" });
+    expect(schemas["users.v2"].getUser).toEqual({ type: "string" });
+  });
+});
@@ -0,0 +1,94 @@
+import * as path from "node:path";
+import * as R from "remeda";
+import { GeneratorConfig } from "./config";
+import {
+  MethodInfo,
+  ServiceManifest,
+  getContractVersions,
+  getVersionKey,
+  getVersionMethods,
+  hasClientMethods,
+  hasPayload,
+} from "./generator";
+import { JsonSchema } from "./json-schema";
+import { getDeclaredPayloadSchema, getPayloadSchema } from "./manifest";
+
+/** Import path of the runtime `json-schema` module, which sits next to the client service */
+function getJsonSchemaImport(config: GeneratorConfig, validatorsFile: string) {
+  const target = path.join(path.dirname(config.clientService), "json-schema");
+  const relative = path
+    .relative(path.dirname(validatorsFile), target)
+    .split(path.sep)
+    .join("/");
+  return relative.startsWith(".") ? relative : `./${relative}`;
+}
+
+/** Payload schemas of a service by client method. Handlers of the same event all receive the payload */
+function getServiceSchemas(service: ServiceManifest, methods: MethodInfo[]) {
+  return R.pipe(
+    [
+      ...methods
+        .filter(hasPayload)
+        .map((info) => [info.clientMethodName, getPayloadSchema(info)]),
+      ...service.events
+        .filter((event) => R.isDefined(event.payloadType))
+        .map((event) => [
+          event.clientMethodName,
+          getDeclaredPayloadSchema(event),
+        ]),
+    ] as [string, JsonSchema][],
+    R.groupBy(([clientMethod]) => clientMethod),
+    R.mapValues((entries): JsonSchema => {
+      const schemas = entries.map(([, schema]) => schema);
+      return schemas.length == 1 ? schemas[0] : { allOf: schemas };
+    })
+  );
+}
+
+export function renderValidatorsFile(
+  config: GeneratorConfig,
+  validatorsFile: string,
+  services: ServiceManifest[]
+) {
+  // Schemas of contract versions are under their own key, e.g. `users.v1`, and prefixed in those of the latest version, e.g. `v1.getUser`
+  const payloadSchemas = R.pipe(
+    services,
+    R.filter(hasClientMethods),
+    R.flatMap((service) => {
+      const key = R.uncapitalize(service.serviceName);
+      const versions = getContractVersions(service.methods).map((version) => ({
+        key: getVersionKey(version),
+        schemas: getServiceSchemas(
+          service,
+          getVersionMethods(service.methods, version)
+        ),
+      }));
+      const prefixed = versions.map(({ key, schemas }) =>
+        R.mapKeys(schemas, (method) => `${key}.${method}`)
+      );
+      return [
+        [
+          key,
+          R.mergeAll([
+            getServiceSchemas(service, getVersionMethods(service.methods)),
+            ...prefixed,
+          ]),
+        ] as const,
+        ...versions.map(
+          (version) => [`${key}.${version.key}`, version.schemas] as const
+        ),
+      ];
+    }),
+    R.fromEntries()
+  );
+
+  return `
+    import type { JsonSchema } from '${getJsonSchemaImport(
+      config,
+      validatorsFile
+    )}';
+    export const payloadSchemas: Record<string, Record<string, JsonSchema>> = ${JSON.stringify(
+      payloadSchemas
+    )};
+    `;
+}
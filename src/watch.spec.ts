@@ -0,0 +1,109 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { createWorkspace, removeWorkspace } from "../test/workspace";
+import { resolveConfig } from "./config";
+import { watch } from "./watch";
+
+const controller = (handlers: string) => `
+import { Controller } from "@nestjs/common";
+import { MessagePattern, Payload } from "@nestjs/microservices";
+
+@Controller()
+export class UsersController {
+  @MessagePattern("users.get")
+  getUser(@Payload() id: number): string {
+    return "";
+  }
+${handlers}
+}
+`;
+
+/** Polls until the check passes, the watcher debounces and regenerates in the background */
+async function waitFor(check: () => Promise<boolean>, timeout = 20000) {
+  const deadline = Date.now() + timeout;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+describe("watch", () => {
+  let root: string;
+  let stop: () => Promise<void>;
+  const config = () => resolveConfig({ root });
+  const controllerPath = () =>
+    path.join(root, "apps/users/src/users.controller.ts");
+  const proxyPath = () =>
+    path.join(root, "apps/users/src/users.proxy.generated.ts");
+  const readProxy = () => fs.readFile(proxyPath(), "utf8");
+
+  beforeAll(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    root = await createWorkspace({
+      "apps/users/src/users.module.ts": `
+        import { Module } from "@nestjs/common";
+        import { UsersController } from "./users.controller";
+        @Module({ controllers: [UsersController] })
+        export class UsersModule {}
+      `,
+      "apps/users/src/users.controller.ts": controller(""),
+    });
+    stop = await watch(config());
+  });
+
+  afterAll(async () => {
+    await stop();
+    await removeWorkspace(root);
+    jest.restoreAllMocks();
+  });
+
+  it("generates the proxies when it starts", async () => {
+    expect(await readProxy()).toContain("getUser(");
+  });
+
+  it("regenerates the proxy of a changed controller", async () => {
+    await fs.writeFile(
+      controllerPath(),
+      controller(`
+  @MessagePattern("users.delete")
+  deleteUser(@Payload() id: number): boolean {
+    return true;
+  }
+`)
+    );
+
+    await waitFor(async () => (await readProxy()).includes("deleteUser("));
+  });
+
+  it("keeps watching after a regeneration failed", async () => {
+    // The pattern map can't be written over a directory
+    const { patternsFile } = config();
+    await fs.rm(patternsFile);
+    await fs.mkdir(patternsFile);
+    await fs.writeFile(controllerPath(), controller(""));
+    await waitFor(async () => !(await readProxy()).includes("deleteUser("));
+    await waitFor(async () =>
+      (console.error as jest.Mock).mock.calls.some(([error]) =>
+        String(error).includes("EISDIR")
+      )
+    );
+
+    await fs.rm(patternsFile, { recursive: true });
+    await fs.writeFile(
+      controllerPath(),
+      controller(`
+  @MessagePattern("users.rename")
+  renameUser(@Payload() name: string): void {}
+`)
+    );
+
+    await waitFor(async () => (await readProxy()).includes("renameUser("));
+    await waitFor(async () =>
+      fs.stat(patternsFile).then(
+        (stat) => stat.isFile(),
+        () => false
+      )
+    );
+  });
+});
@@ -0,0 +1,252 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as R from "remeda";
+import { FileSystemRefreshResult } from "ts-morph";
+import { GeneratorConfig } from "./config";
+import { formatDiagnostics } from "./diagnostics";
+import { renderManifestFile } from "./manifest";
+import { renderValidatorsFile } from "./validators";
+import { renderAsyncApiFiles } from "./asyncapi";
+import { checkEventsFile } from "./events";
+import { getServiceName } from "./conventions";
+import {
+  ServiceManifest,
+  checkDuplicateServices,
+  createProject,
+  extractService,
+  extractWorkspaceEvents,
+  findControllers,
+  findMainModules,
+  formatFile,
+  getDependencies,
+  getMockFilePath,
+  getProxyFilePath,
+  hasClientMethods,
+  renderMockFile,
+  renderPatternsFile,
+  renderProxyFile,
+  writeIfChanged,
+} from "./generator";
+
+const DEBOUNCE_MS = 100;
+
+type ServiceState = ServiceManifest & {
+  dependencies: Set<string>;
+};
+
+/**
+ * Generates once, then keeps the project alive and on every change re-extracts only
+ * the services whose controllers or their (transitive) imports were touched.
+ * A failing regeneration is logged and the next change is handled as usual.
+ * Returns a function that stops watching once the pending regeneration is done.
+ */
+export async function watch(config: GeneratorConfig) {
+  console.log("Initializing type checker...");
+  let mainModulePaths = await findMainModules(config);
+  const project = await createProject(config, mainModulePaths);
+  const services = new Map<string, ServiceState>();
+  // Declared events, which handlers of other services may subscribe to
+  let workspaceEvents = await extractWorkspaceEvents(
+    project,
+    config,
+    mainModulePaths
+  );
+
+  const writeFile = async (filePath: string, content: string) => {
+    if (await writeIfChanged(filePath, await formatFile(filePath, content))) {
+      console.log(`Updated ${path.relative(config.root, filePath)}`);
+    }
+  };
+
+  const updateService = async (modulePath: string) => {
+    const service = await extractService(
+      project,
+      config,
+      modulePath,
+      workspaceEvents
+    );
+    const { serviceName, controllerPaths, methods, events } = service;
+    const dependencies = getDependencies(project, controllerPaths);
+    if (config.eventsFile) dependencies.add(config.eventsFile);
+    services.set(modulePath, { ...service, dependencies });
+
+    if (!hasClientMethods(service)) return;
+
+    const outFile = getProxyFilePath(config, modulePath, serviceName);
+    await writeFile(
+      outFile,
+      renderProxyFile(config, serviceName, methods, events)
+    );
+    if (config.mocks) {
+      await writeFile(
+        getMockFilePath(config, modulePath, serviceName),
+        renderMockFile(config, modulePath, serviceName, methods, events)
+      );
+    }
+  };
+
+  const reportDiagnostics = () => {
+    const diagnostics = [
+      ...[...services.values()].flatMap((state) => state.diagnostics),
+      ...checkDuplicateServices(mainModulePaths, config.conventions),
+      ...checkEventsFile(project, config, mainModulePaths),
+    ];
+    if (diagnostics.length > 0) {
+      console.error(
+        formatDiagnostics(diagnostics, "human", config.root) + "\n"
+      );
+    }
+  };
+
+  /** Files generated from all services: the pattern map, the manifest, the payload schemas and the AsyncAPI documents */
+  const updateWorkspaceFiles = async () => {
+    const allServices = [...services.values()];
+    await writeFile(config.patternsFile, renderPatternsFile(allServices));
+    if (config.manifestFile) {
+      await writeFile(
+        config.manifestFile,
+        renderManifestFile(allServices, config.root)
+      );
+    }
+    if (config.validatorsFile) {
+      await writeFile(
+        config.validatorsFile,
+        renderValidatorsFile(config, config.validatorsFile, allServices)
+      );
+    }
+    for (const [file, document] of renderAsyncApiFiles(config, allServices)) {
+      await writeFile(file, document);
+    }
+  };
+
+  console.log("Extracting types for client proxies from controllers...");
+  for (const modulePath of mainModulePaths) {
+    await updateService(modulePath);
+  }
+  reportDiagnostics();
+  await updateWorkspaceFiles();
+
+  const generatedFiles = (file: string) =>
+    file === config.patternsFile ||
+    file === config.manifestFile ||
+    file === config.validatorsFile ||
+    file.endsWith(".proxy.generated.ts") ||
+    file.endsWith(".proxy.mock.generated.ts");
+
+  const isWatched = (file: string) =>
+    file.endsWith(".ts") &&
+    !file.split(path.sep).includes("node_modules") &&
+    !generatedFiles(file);
+
+  const flush = async (changedFiles: string[]) => {
+    for (const file of changedFiles) {
+      const sourceFile = project.getSourceFile(file);
+      if (!sourceFile) continue;
+      const result = await sourceFile.refreshFromFileSystem();
+      if (result === FileSystemRefreshResult.Deleted) {
+        project.removeSourceFile(sourceFile);
+      }
+    }
+
+    const previousModulePaths = mainModulePaths;
+    mainModulePaths = await findMainModules(config);
+    const addedModules = R.difference(mainModulePaths, previousModulePaths);
+    for (const modulePath of R.difference(
+      previousModulePaths,
+      mainModulePaths
+    )) {
+      services.delete(modulePath);
+    }
+    project.addSourceFilesAtPaths(addedModules);
+    // Events file may have been created since
+    if (config.eventsFile) {
+      project.addSourceFileAtPathIfExists(config.eventsFile);
+    }
+    project.resolveSourceFileDependencies();
+
+    const declaredPatterns = () =>
+      workspaceEvents.map((event) => event.patternValue).sort();
+    const previousPatterns = declaredPatterns();
+    workspaceEvents = await extractWorkspaceEvents(
+      project,
+      config,
+      mainModulePaths
+    );
+    // Subscribers in other services depend on the declarations
+    const isEventsChanged = !R.isDeepEqual(
+      previousPatterns,
+      declaredPatterns()
+    );
+
+    const affected: string[] = [];
+    for (const modulePath of mainModulePaths) {
+      const state = services.get(modulePath);
+      const controllerPaths = await findControllers(config, modulePath);
+      const isAffected =
+        !state ||
+        isEventsChanged ||
+        !R.isDeepEqual(state.controllerPaths, controllerPaths) ||
+        changedFiles.some((file) => state.dependencies.has(file));
+      if (isAffected) {
+        project.addSourceFilesAtPaths(controllerPaths);
+        affected.push(modulePath);
+      }
+    }
+
+    if (affected.length == 0) return;
+
+    console.log(
+      `Regenerating ${affected
+        .map((modulePath) => getServiceName(modulePath, config.conventions))
+        .join(", ")}...`
+    );
+    for (const modulePath of affected) {
+      await updateService(modulePath);
+    }
+    reportDiagnostics();
+    await updateWorkspaceFiles();
+  };
+
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let queue = Promise.resolve();
+
+  const onChange = (dir: string) => (_: string, filename: string | null) => {
+    if (!filename) return;
+    const file = path.join(dir, filename);
+    if (!isWatched(file)) return;
+
+    pending.add(file);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const changedFiles = [...pending];
+      pending.clear();
+      queue = queue
+        .then(() => flush(changedFiles))
+        .catch((error) => console.error(error));
+    }, DEBOUNCE_MS);
+  };
+
+  // Watching the root recursively would walk node_modules too
+  const watchedDirs = fs
+    .readdirSync(config.root, { withFileTypes: true })
+    .filter(
+      (entry) =>
+        entry.isDirectory() &&
+        entry.name !== "node_modules" &&
+        !entry.name.startsWith(".")
+    )
+    .map((entry) => path.join(config.root, entry.name));
+
+  const watchers = watchedDirs.map((dir) =>
+    fs.watch(dir, { recursive: true }, onChange(dir))
+  );
+
+  console.log("Watching for changes...");
+
+  return async () => {
+    watchers.forEach((watcher) => watcher.close());
+    clearTimeout(timer);
+    await queue;
+  };
+}
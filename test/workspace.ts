@@ -0,0 +1,46 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const DEFAULT_FILES: Record<string, string> = {
+  "tsconfig.json": JSON.stringify({
+    compilerOptions: {
+      baseUrl: ".",
+      experimentalDecorators: true,
+      strict: true,
+    },
+  }),
+  "libs/proxies/src/client.service.ts": `export type Options = {};`,
+};
+
+/**
+ * Writes the files into a new temporary workspace, along with a tsconfig and a client service unless given.
+ * Packages are linked from the node_modules of this repository, so that imports of Nest and rxjs resolve.
+ * The defaults go into `dir` if given, like a package of a monorepo whose dependencies are hoisted.
+ */
+export async function createWorkspace(files: Record<string, string>, dir = "") {
+  const root = await fs.realpath(
+    await fs.mkdtemp(path.join(os.tmpdir(), "client-generator-"))
+  );
+  const defaults = Object.entries(DEFAULT_FILES).map(
+    ([file, content]) => [path.join(dir, file), content] as const
+  );
+  for (const [file, content] of Object.entries({
+    ...Object.fromEntries(defaults),
+    ...files,
+  })) {
+    const filePath = path.join(root, file);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+  await fs.symlink(
+    path.resolve(__dirname, "../node_modules"),
+    path.join(root, "node_modules"),
+    "dir"
+  );
+  return root;
+}
+
+export async function removeWorkspace(root: string) {
+  await fs.rm(root, { recursive: true, force: true });
+}